@@ -0,0 +1,174 @@
+/**
+ * Media hot path benchmark: frames/sec through the server at a baseline commit and through the current tree.
+ * Both run their own code end to end: an inbound frame is handed to the socket's `message` listener and
+ * reaches an `onMedia` handler that reads the audio once; outbound audio goes through `session.playAudio`
+ * with no `outboundAudio` listener. The baseline's `src` is extracted with `git archive` into a temporary
+ * directory, removed when the run ends.
+ *
+ *   bun run bench
+ *   BASELINE=<commit> bun run bench
+ *
+ * Without `BASELINE`, the baseline is the parent of the commit that added the fast path.
+ */
+import { execFileSync } from 'child_process';
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { mkdtempSync, rmSync, symlinkSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const FRAMES = Number(process.env.FRAMES ?? 200_000);
+const root = join(import.meta.dirname, '..');
+const BASELINE = process.env.BASELINE ?? fastPathParent();
+const callId = randomUUID();
+const streamId = randomUUID();
+const audio = Buffer.alloc(160, 0xff); // 20 ms of 8 kHz mu-law
+
+const start = Buffer.from(
+  JSON.stringify({
+    event: 'start',
+    sequenceNumber: 0,
+    extra_headers: '{}',
+    start: {
+      callId,
+      streamId,
+      accountId: 'MA000000',
+      tracks: ['inbound'],
+      mediaFormat: { encoding: 'audio/x-mulaw', sampleRate: 8000 },
+    },
+  }),
+);
+const messages = Array.from({ length: 1000 }, (_, i) =>
+  Buffer.from(
+    JSON.stringify({
+      sequenceNumber: i + 1,
+      streamId,
+      event: 'media',
+      media: { track: 'inbound', timestamp: String(i * 20), chunk: i, payload: audio.toString('base64') },
+      extra_headers: '{}',
+    }),
+  ),
+);
+
+// The same frames with another key order, which the string-level detection leaves to JSON.parse
+const reordered = messages.map((message) => {
+  const { event, ...rest } = JSON.parse(message.toString());
+  return Buffer.from(JSON.stringify({ event, ...rest }));
+});
+
+/** An open socket that discards what is sent, so the server's own code is all that is timed */
+class NullSocket extends EventEmitter {
+  public readonly OPEN = 1;
+  public readonly readyState = 1;
+  public readonly bufferedAmount = 0;
+  public sentBytes = 0;
+
+  public send(data: string): void {
+    this.sentBytes += data.length;
+  }
+
+  public close(): void {}
+  public terminate(): void {}
+  public ping(): void {}
+}
+
+/** The parent of the first commit with `encodePlayAudio`, which holds the code before the fast path */
+function fastPathParent(): string {
+  const log = execFileSync('git', ['log', '--reverse', '--format=%H', '-S', 'encodePlayAudio', '--', 'src'], {
+    cwd: root,
+    encoding: 'utf8',
+  });
+  const commit = log.split('\n')[0];
+  if (!commit) {
+    throw new Error('Could not find the commit that added the fast path; set BASELINE=<commit>');
+  }
+  return `${commit}^`;
+}
+
+/** Extract `src` at `commit` into a temporary directory whose imports resolve against the installed packages */
+function checkout(commit: string, dir: string): string {
+  const archive = execFileSync('git', ['archive', commit, 'src'], { cwd: root });
+  execFileSync('tar', ['-x', '-C', dir], { input: archive });
+  symlinkSync(join(root, 'node_modules'), join(dir, 'node_modules'), 'dir');
+  return join(dir, 'src');
+}
+
+interface Harness {
+  inbound(data: Buffer): number;
+  outbound(payload: Uint8Array): number;
+}
+
+/** Start a `noServer` server from `src`, connect a `NullSocket` and send the start event */
+async function connect(src: string): Promise<Harness> {
+  const { PlivoWebSocketServer } = await import(join(src, 'index.ts'));
+  const server = new PlivoWebSocketServer({ noServer: true });
+  let received = 0;
+  let session: any;
+  server
+    .onStart((event: unknown, ws: unknown, started: unknown) => {
+      session = started;
+    })
+    .onMedia((event: { getRawMedia(): Buffer }) => {
+      received += event.getRawMedia().length;
+    })
+    .start();
+  const socket = new NullSocket();
+  server.emit('connection', socket, { url: '/', headers: {}, socket: {} });
+  // Connection callbacks settle before messages are handled directly
+  await new Promise((resolve) => setImmediate(resolve));
+  socket.emit('message', start);
+  socket.emit('message', messages[0]);
+  if (!session || received === 0) throw new Error(`Frames did not reach the handlers for ${src}`);
+  return {
+    inbound(data) {
+      socket.emit('message', data);
+      return received;
+    },
+    outbound(payload) {
+      session.playAudio('audio/x-mulaw', 8000, payload);
+      return socket.sentBytes;
+    },
+  };
+}
+
+function measure<T>(label: string, inputs: T[], run: (input: T) => number): number {
+  // Warm up, then time
+  for (let i = 0; i < 10_000; i++) run(inputs[i % inputs.length]!);
+  let sink = 0;
+  const started = performance.now();
+  for (let i = 0; i < FRAMES; i++) sink += run(inputs[i % inputs.length]!);
+  const rate = FRAMES / ((performance.now() - started) / 1000);
+  console.log(`${label.padEnd(20)} ${Math.round(rate).toLocaleString('en-US').padStart(12)} frames/s`);
+  if (sink < 0) console.log(sink);
+  return rate;
+}
+
+const baselineDir = mkdtempSync(join(tmpdir(), 'plivo-stream-bench-'));
+let before: Harness;
+try {
+  before = await connect(checkout(BASELINE, baselineDir));
+} finally {
+  // Modules are loaded once imported
+  rmSync(baselineDir, { recursive: true, force: true });
+}
+const after = await connect(join(root, 'src'));
+const payloads = [new Uint8Array(audio)];
+const rows: [string, number, number][] = [
+  [
+    'inbound media',
+    measure('inbound (before)', messages, before.inbound),
+    measure('inbound (after)', messages, after.inbound),
+  ],
+  [
+    'outbound playAudio',
+    measure('outbound (before)', payloads, before.outbound),
+    measure('outbound (after)', payloads, after.outbound),
+  ],
+];
+const parsed = measure('inbound (parsed)', reordered, after.inbound);
+console.log();
+console.log(`baseline: ${BASELINE}`);
+for (const [label, rateBefore, rateAfter] of rows) {
+  console.log(`${label}: ${(rateAfter / rateBefore).toFixed(1)}x`);
+}
+console.log(`string-level media detection: ${(rows[0]![2] / parsed).toFixed(1)}x over JSON.parse`);
@@ -1,12 +1,13 @@
 import express from 'express';
-import PlivoWebSocketServer from '../../src';
-import type { StartEvent, MediaEvent, DTMFEvent } from '../../src/types';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import PlivoWebSocketServer, { type PlivoStreamSession } from '../../src';
+import type { StartEvent, DTMFEvent } from '../../src/types';
 import { createClient, ListenLiveClient, LiveTranscriptionEvent, LiveTranscriptionEvents } from '@deepgram/sdk';
 import { ElevenLabsClient } from '@elevenlabs/elevenlabs-js';
 import { OpenAI } from 'openai';
 import { config } from 'dotenv';
 import { TextToSpeechStreamRequestOutputFormat } from '@elevenlabs/elevenlabs-js/api';
-import type { WebSocket as WebSocketType } from 'ws';
 import * as Plivo from 'plivo';
 
 config();
@@ -33,16 +34,15 @@ const elevenLabsClient = new ElevenLabsClient({
   apiKey: process.env.ELEVENLABS_API_KEY,
 });
 
-async function streamTextToSpeech(text: string, ws: WebSocketType) {
+async function streamTextToSpeech(text: string, session: PlivoStreamSession<ConnectionState>) {
   const audioStream = await elevenLabsClient.textToSpeech.stream(process.env.ELEVENLABS_VOICE_ID!, {
     text: text,
     modelId: process.env.ELEVENLABS_MODEL_ID,
     outputFormat: TextToSpeechStreamRequestOutputFormat.Ulaw8000,
   });
 
-  for await (const chunk of audioStream) {
-    plivoServer.playAudio(ws, 'audio/x-mulaw', 8000, Buffer.from(chunk));
-  }
+  // Paced playback: audio is sent in 20 ms frames close to real time
+  await pipeline(Readable.from(audioStream), session.outbound);
   console.log('🔊 Finished streaming TTS to Plivo');
 }
 
@@ -100,6 +100,21 @@ const server = app.listen(PORT, () => {
   console.log(`✓ WebSocket endpoint: ws://localhost:${PORT}/stream`);
 });
 
+// Forward the caller's audio to Deepgram until the call ends
+async function forwardCallerAudio(session: PlivoStreamSession<ConnectionState>, client: ListenLiveClient) {
+  for await (const chunk of session.inbound) {
+    if (!client.isConnected()) {
+      console.log('🔊 Deepgram is not connected, skipping audio send');
+      continue;
+    }
+    try {
+      client.send(chunk);
+    } catch (error) {
+      console.error('❌ Error sending audio to Deepgram:', error);
+    }
+  }
+}
+
 function waitForDeepgramConnectionToOpen(client: ListenLiveClient): Promise<void> {
   return new Promise((resolve, reject) => {
     client.on(LiveTranscriptionEvents.Open, () => {
@@ -112,11 +127,13 @@ function waitForDeepgramConnectionToOpen(client: ListenLiveClient): Promise<void
   });
 }
 
-// Per-connection state - keyed by WebSocket instance
-const connectionState = new WeakMap<WebSocketType, { client: ListenLiveClient }>();
+// Per-connection state - stored on each session's `data` slot
+interface ConnectionState {
+  client?: ListenLiveClient;
+}
 
 // Create PlivoWebSocketServer - no separate handler needed
-const plivoServer = new PlivoWebSocketServer({
+const plivoServer = new PlivoWebSocketServer<ConnectionState>({
   server,
   path: '/stream',
   // make this true if you want to validate the signature
@@ -127,25 +144,10 @@ const plivoServer = new PlivoWebSocketServer({
 });
 
 plivoServer
-  .onStart((event: StartEvent, ws: WebSocketType) => {
+  .onStart((event: StartEvent) => {
     console.log('🔊 Stream started:', event.start.streamId);
   })
-  .onMedia((event: MediaEvent, ws: WebSocketType) => {
-    const state = connectionState.get(ws);
-    if (!state) return;
-
-    const audioBuffer = event.getRawMedia();
-    if (state.client.isConnected()) {
-      try {
-        state.client.send(audioBuffer as any);
-      } catch (error) {
-        console.error('❌ Error sending audio to Deepgram:', error);
-      }
-    } else {
-      console.log('🔊 Deepgram is not connected, skipping audio send');
-    }
-  })
-  .onDtmf((event: DTMFEvent, ws: WebSocketType) => {
+  .onDtmf((event: DTMFEvent, ws, session) => {
     console.log('🔢 DTMF received:', {
       digit: event.dtmf.digit,
       track: event.dtmf.track,
@@ -153,7 +155,7 @@ plivoServer
     });
 
     if (event.dtmf.digit === '*') {
-      plivoServer.clearAudio(ws);
+      session.clearAudio();
       console.log('🧹 Audio queue cleared');
     }
   })
@@ -172,14 +174,11 @@ plivoServer
   .onError((error, ws) => {
     console.error('❌ Stream error:', error.message);
   })
-  .onClose((ws) => {
+  .onClose((ws, session) => {
     console.log('👋 Stream closed');
-    const state = connectionState.get(ws);
-    if (state) {
-      state.client.requestClose();
-    }
+    session.data.client?.requestClose();
   })
-  .onConnection(async (ws, req) => {
+  .onConnection(async (ws, req, session) => {
     console.log('📞 New WebSocket connection established');
 
     // Initialize per-connection Deepgram client
@@ -191,10 +190,11 @@ plivoServer
       vad_events: true,
     });
 
-    // Store client in connection state for use by event handlers
-    connectionState.set(ws, { client: deepgramClient });
+    // Store client on the session for use by event handlers
+    session.data.client = deepgramClient;
 
     await waitForDeepgramConnectionToOpen(deepgramClient);
+    forwardCallerAudio(session, deepgramClient);
 
     deepgramClient.on(LiveTranscriptionEvents.Transcript, async (data: LiveTranscriptionEvent) => {
       const transcription = data?.channel?.alternatives?.[0]?.transcript;
@@ -203,7 +203,7 @@ plivoServer
         const completion = await addMessageAndGetResponse(transcription);
         console.log('🤖 Completion:', completion);
         if (completion) {
-          await streamTextToSpeech(completion, ws);
+          await streamTextToSpeech(completion, session);
         }
       }
     });
@@ -0,0 +1,81 @@
+interface PendingAck<T> {
+  resolve: (value: T) => void;
+  reject: (error: Error) => void;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Outstanding acknowledgements keyed by name, settled in FIFO order per key
+ */
+export class PendingAcks<T> {
+  private pending = new Map<string, PendingAck<T>[]>();
+
+  /**
+   * Register a pending acknowledgement. `onTimeout` builds the rejection error
+   * if it is not settled within `timeoutMs` (0 disables the timeout).
+   */
+  public add(key: string, timeoutMs: number, onTimeout: () => Error): Promise<T> {
+    const promise = new Promise<T>((resolve, reject) => {
+      const entry: PendingAck<T> = { resolve, reject };
+      if (timeoutMs > 0) {
+        entry.timer = setTimeout(() => {
+          this.remove(key, entry);
+          reject(onTimeout());
+        }, timeoutMs);
+      }
+      const list = this.pending.get(key) ?? [];
+      list.push(entry);
+      this.pending.set(key, list);
+    });
+    // Callers may treat the action as fire-and-forget; don't surface unhandled rejections
+    promise.catch(() => {});
+    return promise;
+  }
+
+  /**
+   * Resolve the oldest pending acknowledgement for `key`
+   */
+  public resolve(key: string, value: T): boolean {
+    const entry = this.shift(key);
+    if (!entry) return false;
+    entry.resolve(value);
+    return true;
+  }
+
+  /**
+   * Reject every pending acknowledgement
+   */
+  public rejectAll(error: (key: string) => Error): void {
+    const pending = this.pending;
+    this.pending = new Map();
+    for (const [key, list] of pending) {
+      for (const entry of list) {
+        if (entry.timer) clearTimeout(entry.timer);
+        entry.reject(error(key));
+      }
+    }
+  }
+
+  public get size(): number {
+    let size = 0;
+    for (const list of this.pending.values()) size += list.length;
+    return size;
+  }
+
+  private shift(key: string): PendingAck<T> | undefined {
+    const list = this.pending.get(key);
+    const entry = list?.shift();
+    if (list && list.length === 0) this.pending.delete(key);
+    if (entry?.timer) clearTimeout(entry.timer);
+    return entry;
+  }
+
+  private remove(key: string, entry: PendingAck<T>): void {
+    const list = this.pending.get(key);
+    if (!list) return;
+    const index = list.indexOf(entry);
+    if (index >= 0) list.splice(index, 1);
+    if (list.length === 0) this.pending.delete(key);
+    if (entry.timer) clearTimeout(entry.timer);
+  }
+}
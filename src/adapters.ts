@@ -0,0 +1,177 @@
+import { EventEmitter } from 'events';
+import { IncomingMessage, type Server as HttpServer } from 'http';
+import type { Server as HttpsServer } from 'https';
+import { Socket } from 'net';
+import type { Duplex } from 'stream';
+import type { WebSocket as WebSocketType } from 'ws';
+import type { PlivoWebSocketServer } from './index.js';
+
+type AnyPlivoServer = PlivoWebSocketServer<any, any>;
+
+/**
+ * Hand `upgrade` requests for the server's `path` on a node `http`/`https` server to a `noServer`
+ * `PlivoWebSocketServer`; requests for other paths are left to other `upgrade` listeners, so one HTTP server
+ * can carry several WebSocket endpoints. Works for Express too, with the server returned by `app.listen()`.
+ * Returns a function that detaches.
+ */
+export function attachToServer(plivoServer: AnyPlivoServer, server: HttpServer | HttpsServer): () => void {
+  if (!plivoServer.options.noServer) {
+    throw new Error('attachToServer requires a PlivoWebSocketServer created with noServer: true');
+  }
+  const listener = (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+    if (plivoServer.shouldHandle(request)) {
+      plivoServer.handleUpgrade(request, socket, head);
+    }
+  };
+  server.on('upgrade', listener);
+  return () => server.off('upgrade', listener);
+}
+
+/** The parts of a Fastify instance the plugin uses */
+export interface FastifyInstanceLike {
+  server: HttpServer | HttpsServer;
+  addHook(name: 'onClose', hook: () => Promise<void>): unknown;
+}
+
+/**
+ * Fastify plugin serving a `noServer` `PlivoWebSocketServer` on Fastify's HTTP server; the WebSocket server is
+ * closed with Fastify. Register it with `fastify.register(fastifyPlivoStream(plivoServer))`.
+ */
+export function fastifyPlivoStream(plivoServer: AnyPlivoServer): (fastify: FastifyInstanceLike) => Promise<void> {
+  return async (fastify) => {
+    const detach = attachToServer(plivoServer, fastify.server);
+    fastify.addHook('onClose', async () => {
+      detach();
+      await new Promise<void>((resolve) => plivoServer.close(() => resolve()));
+    });
+  };
+}
+
+/** The parts of Bun's `ServerWebSocket` the adapter uses */
+export interface BunServerWebSocket {
+  send(data: string): unknown;
+  close(code?: number, reason?: string): void;
+  terminate(): void;
+  ping(): unknown;
+  readonly readyState: number;
+  getBufferedAmount(): number;
+  data: BunSocketData;
+}
+
+/** The parts of Bun's `Server` the adapter uses */
+export interface BunServerLike {
+  upgrade(request: Request, options: { data: BunSocketData }): boolean;
+}
+
+/** Per-connection data the adapter keeps on Bun's `ws.data` */
+export interface BunSocketData {
+  request: IncomingMessage;
+  socket?: BunSocket;
+}
+
+/**
+ * Presents a Bun `ServerWebSocket` as the `ws` WebSocket the server and sessions expect;
+ * the Bun `websocket` handlers feed it `message`, `close` and `pong` events.
+ */
+export class BunSocket extends EventEmitter {
+  public readonly CONNECTING = 0;
+  public readonly OPEN = 1;
+  public readonly CLOSING = 2;
+  public readonly CLOSED = 3;
+
+  constructor(public readonly socket: BunServerWebSocket) {
+    super();
+  }
+
+  public get readyState(): number {
+    return this.socket.readyState;
+  }
+
+  public get bufferedAmount(): number {
+    return this.socket.getBufferedAmount();
+  }
+
+  public send(data: string): void {
+    this.socket.send(data);
+  }
+
+  public close(code?: number, reason?: string): void {
+    this.socket.close(code, reason);
+  }
+
+  public terminate(): void {
+    this.socket.terminate();
+  }
+
+  public ping(): void {
+    this.socket.ping();
+  }
+}
+
+export interface BunAdapter {
+  /**
+   * Upgrade a request from `Bun.serve`'s `fetch` handler. Returns `undefined` once upgraded, or the response to
+   * send: 400 for another path or a request that is not a WebSocket upgrade, 503 while draining, 403 for an
+   * invalid signature.
+   */
+  upgrade(request: Request, server: BunServerLike): Response | undefined;
+  /** Pass as `Bun.serve`'s `websocket` option */
+  websocket: {
+    open(ws: BunServerWebSocket): void;
+    message(ws: BunServerWebSocket, message: string | Buffer): void;
+    close(ws: BunServerWebSocket, code: number, reason: string): void;
+    pong(ws: BunServerWebSocket): void;
+  };
+}
+
+/**
+ * Drive a `noServer` `PlivoWebSocketServer` from `Bun.serve`'s native WebSockets
+ */
+export function createBunAdapter(plivoServer: AnyPlivoServer): BunAdapter {
+  return {
+    upgrade(request, server) {
+      const incoming = toIncomingMessage(request);
+      const rejection = plivoServer.checkUpgrade(incoming);
+      if (rejection) {
+        return new Response(rejection.message, { status: rejection.status });
+      }
+      if (!server.upgrade(request, { data: { request: incoming } })) {
+        return new Response('Bad Request', { status: 400 });
+      }
+      return undefined;
+    },
+    websocket: {
+      open(ws) {
+        const socket = new BunSocket(ws);
+        ws.data.socket = socket;
+        plivoServer.emit('connection', socket as unknown as WebSocketType, ws.data.request);
+      },
+      message(ws, message) {
+        ws.data.socket?.emit('message', typeof message === 'string' ? Buffer.from(message) : message);
+      },
+      close(ws, code, reason) {
+        ws.data.socket?.emit('close', code, Buffer.from(reason));
+      },
+      pong(ws) {
+        ws.data.socket?.emit('pong');
+      },
+    },
+  };
+}
+
+/**
+ * Build the node request the server and sessions see (signature checks, capture, `session.request`)
+ * from a Fetch API request
+ */
+function toIncomingMessage(request: Request): IncomingMessage {
+  const url = new URL(request.url);
+  const socket = new Socket();
+  if (url.protocol === 'https:' || url.protocol === 'wss:') {
+    Object.assign(socket, { encrypted: true });
+  }
+  const incoming = new IncomingMessage(socket);
+  incoming.method = request.method;
+  incoming.url = `${url.pathname}${url.search}`;
+  incoming.headers = Object.fromEntries(request.headers);
+  return incoming;
+}
@@ -0,0 +1,268 @@
+import type { MediaFormat } from './types.js';
+import { AudioFormatError } from './errors.js';
+
+/**
+ * Audio encodings supported by Plivo streams
+ */
+export type AudioEncoding = 'mulaw' | 'alaw' | 'l16';
+
+/**
+ * Content types used on the wire for each encoding
+ */
+export const CONTENT_TYPES: Record<AudioEncoding, string> = {
+  mulaw: 'audio/x-mulaw',
+  alaw: 'audio/x-alaw',
+  l16: 'audio/x-l16',
+};
+
+export interface Pcm16Options {
+  /** Resample the decoded audio to this rate (defaults to the stream's rate) */
+  sampleRate?: number;
+  /** Override the media format (defaults to the one from the start event) */
+  mediaFormat?: MediaFormat;
+}
+
+/**
+ * Resolve a content type or encoding name (e.g. 'audio/x-mulaw;rate=8000', 'ulaw', 'L16')
+ * to one of the supported encodings
+ */
+export function parseEncoding(contentType: string): AudioEncoding {
+  const base = contentType
+    .split(';')[0]!
+    .trim()
+    .toLowerCase()
+    .replace(/^audio\//, '')
+    .replace(/^x-/, '');
+  switch (base) {
+    case 'mulaw':
+    case 'ulaw':
+    case 'pcmu':
+      return 'mulaw';
+    case 'alaw':
+    case 'pcma':
+      return 'alaw';
+    case 'l16':
+    case 'pcm':
+    case 'linear16':
+      return 'l16';
+    default:
+      throw new AudioFormatError(`Unsupported audio encoding: ${contentType}`);
+  }
+}
+
+/**
+ * Number of bytes a single sample takes in the given encoding
+ */
+export function bytesPerSample(encoding: AudioEncoding): number {
+  return encoding === 'l16' ? 2 : 1;
+}
+
+/**
+ * Playback duration of `byteLength` bytes of audio, in milliseconds.
+ * Unrecognised content types are assumed to be 16-bit PCM.
+ */
+export function audioDurationMs(byteLength: number, contentType: string, sampleRate: number): number {
+  let sampleBytes = 2;
+  try {
+    sampleBytes = bytesPerSample(parseEncoding(contentType));
+  } catch {
+    // Fall back to PCM16
+  }
+  return sampleRate > 0 ? (byteLength / sampleBytes / sampleRate) * 1000 : 0;
+}
+
+/**
+ * A buffer of digital silence in the given encoding
+ */
+export function silence(encoding: AudioEncoding | string, byteLength: number): Buffer {
+  switch (parseEncoding(encoding)) {
+    case 'mulaw':
+      return Buffer.alloc(byteLength, 0xff);
+    case 'alaw':
+      return Buffer.alloc(byteLength, 0xd5);
+    case 'l16':
+      return Buffer.alloc(byteLength);
+  }
+}
+
+// G.711 mu-law
+
+const MULAW_BIAS = 0x84;
+const MULAW_CLIP = 32635;
+
+const MULAW_DECODE_TABLE = new Int16Array(256);
+for (let i = 0; i < 256; i++) {
+  const u = ~i & 0xff;
+  const exponent = (u >> 4) & 0x07;
+  const mantissa = u & 0x0f;
+  const magnitude = (((mantissa << 3) + MULAW_BIAS) << exponent) - MULAW_BIAS;
+  MULAW_DECODE_TABLE[i] = u & 0x80 ? -magnitude : magnitude;
+}
+
+function encodeMulawSample(sample: number): number {
+  const sign = sample < 0 ? 0x80 : 0;
+  const magnitude = Math.min(Math.abs(sample), MULAW_CLIP) + MULAW_BIAS;
+  let exponent = 7;
+  for (let mask = 0x4000; (magnitude & mask) === 0 && exponent > 0; mask >>= 1) {
+    exponent--;
+  }
+  const mantissa = (magnitude >> (exponent + 3)) & 0x0f;
+  return ~(sign | (exponent << 4) | mantissa) & 0xff;
+}
+
+// G.711 A-law
+
+const ALAW_DECODE_TABLE = new Int16Array(256);
+for (let i = 0; i < 256; i++) {
+  const a = i ^ 0x55;
+  const exponent = (a >> 4) & 0x07;
+  const mantissa = a & 0x0f;
+  const magnitude = exponent === 0 ? (mantissa << 4) + 8 : ((mantissa << 4) + 0x108) << (exponent - 1);
+  ALAW_DECODE_TABLE[i] = a & 0x80 ? magnitude : -magnitude;
+}
+
+function encodeAlawSample(sample: number): number {
+  const sign = sample >= 0 ? 0x80 : 0;
+  const magnitude = Math.min(Math.abs(sample), 32767) >> 3;
+  let encoded: number;
+  if (magnitude < 32) {
+    encoded = magnitude >> 1;
+  } else {
+    let exponent = 1;
+    while (magnitude >> (exponent + 5) > 0 && exponent < 7) {
+      exponent++;
+    }
+    encoded = (exponent << 4) | ((magnitude >> exponent) & 0x0f);
+  }
+  return (sign | encoded) ^ 0x55;
+}
+
+/**
+ * Decode G.711 mu-law bytes to little-endian PCM16
+ */
+export function mulawToPcm16(input: Uint8Array): Buffer {
+  const out = Buffer.allocUnsafe(input.length * 2);
+  for (let i = 0; i < input.length; i++) {
+    out.writeInt16LE(MULAW_DECODE_TABLE[input[i]!]!, i * 2);
+  }
+  return out;
+}
+
+/**
+ * Encode little-endian PCM16 to G.711 mu-law bytes
+ */
+export function pcm16ToMulaw(pcm: Buffer): Buffer {
+  const samples = pcm.length >> 1;
+  const out = Buffer.allocUnsafe(samples);
+  for (let i = 0; i < samples; i++) {
+    out[i] = encodeMulawSample(pcm.readInt16LE(i * 2));
+  }
+  return out;
+}
+
+/**
+ * Decode G.711 A-law bytes to little-endian PCM16
+ */
+export function alawToPcm16(input: Uint8Array): Buffer {
+  const out = Buffer.allocUnsafe(input.length * 2);
+  for (let i = 0; i < input.length; i++) {
+    out.writeInt16LE(ALAW_DECODE_TABLE[input[i]!]!, i * 2);
+  }
+  return out;
+}
+
+/**
+ * Encode little-endian PCM16 to G.711 A-law bytes
+ */
+export function pcm16ToAlaw(pcm: Buffer): Buffer {
+  const samples = pcm.length >> 1;
+  const out = Buffer.allocUnsafe(samples);
+  for (let i = 0; i < samples; i++) {
+    out[i] = encodeAlawSample(pcm.readInt16LE(i * 2));
+  }
+  return out;
+}
+
+/**
+ * Resample little-endian PCM16 between sample rates.
+ * Upsampling uses linear interpolation; downsampling averages the source
+ * samples covered by each output sample to limit aliasing.
+ */
+export function resamplePcm16(pcm: Buffer, fromRate: number, toRate: number): Buffer {
+  if (fromRate <= 0 || toRate <= 0) {
+    throw new AudioFormatError(`Invalid sample rate conversion: ${fromRate} -> ${toRate}`);
+  }
+  if (fromRate === toRate) {
+    return pcm;
+  }
+
+  const inSamples = pcm.length >> 1;
+  const outSamples = Math.floor((inSamples * toRate) / fromRate);
+  const out = Buffer.allocUnsafe(outSamples * 2);
+  const ratio = fromRate / toRate;
+
+  for (let i = 0; i < outSamples; i++) {
+    const pos = i * ratio;
+    let value: number;
+    if (ratio > 1) {
+      const start = Math.floor(pos);
+      const end = Math.min(inSamples, Math.floor(pos + ratio));
+      let sum = 0;
+      for (let j = start; j < end; j++) {
+        sum += pcm.readInt16LE(j * 2);
+      }
+      value = sum / Math.max(1, end - start);
+    } else {
+      const index = Math.floor(pos);
+      const frac = pos - index;
+      const a = pcm.readInt16LE(index * 2);
+      const b = index + 1 < inSamples ? pcm.readInt16LE((index + 1) * 2) : a;
+      value = a + (b - a) * frac;
+    }
+    out.writeInt16LE(Math.max(-32768, Math.min(32767, Math.round(value))), i * 2);
+  }
+  return out;
+}
+
+/**
+ * Decode audio in the given encoding to little-endian PCM16
+ */
+export function decodeToPcm16(payload: Buffer, encoding: AudioEncoding | string): Buffer {
+  switch (parseEncoding(encoding)) {
+    case 'mulaw':
+      return mulawToPcm16(payload);
+    case 'alaw':
+      return alawToPcm16(payload);
+    case 'l16':
+      return payload;
+  }
+}
+
+/**
+ * Encode little-endian PCM16 to the given encoding
+ */
+export function encodeFromPcm16(pcm: Buffer, encoding: AudioEncoding | string): Buffer {
+  switch (parseEncoding(encoding)) {
+    case 'mulaw':
+      return pcm16ToMulaw(pcm);
+    case 'alaw':
+      return pcm16ToAlaw(pcm);
+    case 'l16':
+      return pcm;
+  }
+}
+
+/**
+ * Decode a stream payload to PCM16 according to its media format, optionally resampling
+ */
+export function mediaToPcm16(payload: Buffer, mediaFormat: MediaFormat, sampleRate?: number): Buffer {
+  const pcm = decodeToPcm16(payload, mediaFormat.encoding);
+  return sampleRate ? resamplePcm16(pcm, mediaFormat.sampleRate, sampleRate) : pcm;
+}
+
+/**
+ * Transcode PCM16 at any rate to a stream's media format
+ */
+export function pcm16ToMedia(pcm: Buffer, sampleRate: number, mediaFormat: MediaFormat): Buffer {
+  return encodeFromPcm16(resamplePcm16(pcm, sampleRate, mediaFormat.sampleRate), mediaFormat.encoding);
+}
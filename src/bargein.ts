@@ -0,0 +1,126 @@
+import type { PlivoStreamSession } from './session.js';
+import type { DTMFEvent, MediaEvent } from './types.js';
+import type { Utterance } from './queue.js';
+import { VoiceActivityDetector } from './vad.js';
+import { AckCancelledError } from './errors.js';
+
+export interface BargeInOptions {
+  /** Energy threshold in dBFS for caller speech to interrupt playback (default: -35) */
+  threshold?: number;
+  /** Continuous caller speech needed to interrupt, in milliseconds (default: 200) */
+  minSpeechMs?: number;
+  /** Ignore caller speech for this long after outbound playback starts, in milliseconds (default: 300) */
+  graceMs?: number;
+  /** Interrupt on DTMF: `true` for any digit, or a list of digits (default: false) */
+  dtmf?: boolean | string[];
+  /** Media track carrying the caller's audio (default: 'inbound') */
+  track?: string;
+}
+
+export interface InterruptedEvent {
+  /** What triggered the interruption */
+  reason: 'speech' | 'dtmf';
+  /** Digit that triggered a DTMF barge-in */
+  digit?: string;
+  /** Estimated milliseconds of outbound audio that played before the interruption */
+  playedMs: number;
+  /** Estimated milliseconds of outbound audio that were cut off */
+  remainingMs: number;
+  /** Utterances from `session.queue` that were interrupted or cancelled, if the queue is in use */
+  utterances: Utterance[];
+}
+
+/**
+ * Clears outbound audio when the caller talks over it.
+ *
+ * While the session is playing audio (see `session.isPlayingAudio`), inbound speech
+ * detected by a dedicated energy-based detector, or a configured DTMF digit, issues
+ * `clearAudio` and emits an `interrupted` event on the session.
+ */
+export class BargeInController {
+  public readonly graceMs: number;
+  private readonly dtmf: boolean | string[];
+  private readonly detector: VoiceActivityDetector;
+  private interrupting = false;
+
+  private readonly onMedia = (event: MediaEvent) => this.handleMedia(event);
+  private readonly onDtmf = (event: DTMFEvent) => this.handleDtmf(event);
+
+  constructor(
+    private readonly session: PlivoStreamSession<any, any>,
+    options: BargeInOptions = {},
+    private readonly onError: (error: Error) => void = (error) => session.emit('error', error),
+  ) {
+    this.graceMs = options.graceMs ?? 300;
+    this.dtmf = options.dtmf ?? false;
+    this.detector = new VoiceActivityDetector({
+      threshold: options.threshold ?? -35,
+      minSpeechMs: options.minSpeechMs ?? 200,
+      hangoverMs: 200,
+      track: options.track,
+    });
+    session.on('media', this.onMedia);
+    session.on('dtmf', this.onDtmf);
+  }
+
+  /**
+   * Stop listening for barge-in on the session
+   */
+  public dispose(): void {
+    this.session.off('media', this.onMedia);
+    this.session.off('dtmf', this.onDtmf);
+  }
+
+  private handleMedia(event: MediaEvent) {
+    const mediaFormat = this.session.mediaFormat;
+    if (!mediaFormat || event.media.track !== this.detector.track) return;
+
+    this.detector.process(event.getPcm16({ mediaFormat }), mediaFormat.sampleRate);
+    if (this.detector.isSpeaking && this.canInterrupt()) {
+      this.interrupt('speech');
+    }
+  }
+
+  private handleDtmf(event: DTMFEvent) {
+    const digit = event.dtmf.digit;
+    const enabled = Array.isArray(this.dtmf) ? this.dtmf.includes(digit) : this.dtmf;
+    if (enabled && this.session.isPlayingAudio && !this.interrupting) {
+      this.interrupt('dtmf', digit);
+    }
+  }
+
+  private canInterrupt(): boolean {
+    return !this.interrupting && this.session.isPlayingAudio && this.session.outboundPlayedMs >= this.graceMs;
+  }
+
+  private interrupt(reason: 'speech' | 'dtmf', digit?: string) {
+    this.interrupting = true;
+    const playedMs = this.session.outboundPlayedMs;
+    const remainingMs = this.session.outboundRemainingMs;
+    const queue = this.session.hasQueue ? this.session.queue : undefined;
+    const utterances = queue ? [...queue.pending] : [];
+
+    const acks: Promise<unknown>[] = [];
+    if (queue && utterances.length > 0) {
+      acks.push(queue.clear());
+    }
+    if (this.session.isPlayingAudio) {
+      acks.push(this.session.clearAudio());
+    }
+    this.session.emit('interrupted', { reason, digit, playedMs, remainingMs, utterances });
+
+    Promise.all(acks)
+      .catch((error) => {
+        // The caller hung up (or the audio was cleared again) before Plivo acknowledged
+        if (error instanceof AckCancelledError) return;
+        try {
+          this.onError(error instanceof Error ? error : new Error(String(error)));
+        } catch {
+          // Ignore errors in error handlers
+        }
+      })
+      .finally(() => {
+        this.interrupting = false;
+      });
+  }
+}
@@ -0,0 +1,142 @@
+import { createWriteStream } from 'fs';
+import { readFile } from 'fs/promises';
+import type { IncomingHttpHeaders } from 'http';
+import type { Writable } from 'stream';
+import { redact } from './logger.js';
+import type { PlivoStreamSession } from './session.js';
+
+export type CaptureDestination = string | Writable;
+
+export interface CaptureOptions {
+  /**
+   * File path or writable stream for the NDJSON log, or a function returning one (called once
+   * the start event has arrived, so `session.callId` is available). Entries received before
+   * that are held in memory.
+   */
+  destination: CaptureDestination | ((session: PlivoStreamSession<any, any>) => CaptureDestination);
+}
+
+/**
+ * One line of a capture log. `t` is the time the entry was recorded, in milliseconds since epoch.
+ * Messages that were not valid JSON are captured as their raw string.
+ */
+export type CaptureEntry =
+  | { t: number; type: 'connection'; url: string; headers: IncomingHttpHeaders }
+  | { t: number; type: 'inbound'; message: unknown }
+  | { t: number; type: 'outbound'; message: unknown }
+  | { t: number; type: 'close'; code: number; reason: string };
+
+/**
+ * Writes every inbound and outbound message of a connection to an NDJSON log.
+ * If the destination cannot be created, or its stream fails, the failure is passed to `onError`
+ * (by default emitted as the session's `error`).
+ */
+export class StreamCapture {
+  private stream?: Writable;
+  private pending: string[] = [];
+  private closed = false;
+  private error?: Error;
+
+  constructor(
+    private readonly session: PlivoStreamSession<any, any>,
+    private readonly options: CaptureOptions,
+    private readonly onError: (error: Error) => void = (error) => session.emit('error', error),
+  ) {
+    this.write({
+      t: Date.now(),
+      type: 'connection',
+      url: session.request.url ?? '/',
+      // Signature headers are credentials; logs are meant to be shared as repros
+      headers: redact(session.request.headers) as IncomingHttpHeaders,
+    });
+    session.once('start', () => this.open());
+  }
+
+  /** @internal */
+  public inbound(raw: string): void {
+    let message: unknown = raw;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      // Keep the raw string
+    }
+    this.write({ t: Date.now(), type: 'inbound', message });
+  }
+
+  /** @internal */
+  public outbound(message: object): void {
+    this.write({ t: Date.now(), type: 'outbound', message });
+  }
+
+  /**
+   * Record the close and end the log, resolving once it has been flushed
+   */
+  public close(code = 1005, reason = ''): Promise<void> {
+    if (this.closed) return Promise.resolve();
+    this.write({ t: Date.now(), type: 'close', code, reason });
+    this.closed = true;
+    const stream = this.open();
+    if (!stream) return Promise.reject(this.error);
+    return new Promise((resolve, reject) => {
+      stream.once('error', reject);
+      stream.end(() => resolve());
+    });
+  }
+
+  private open(): Writable | undefined {
+    if (this.stream || this.error) return this.stream;
+    try {
+      const { destination: target } = this.options;
+      const destination = typeof target === 'function' ? target(this.session) : target;
+      this.stream = typeof destination === 'string' ? createWriteStream(destination) : destination;
+    } catch (error) {
+      // Stop capturing rather than hold the rest of the call in memory
+      this.closed = true;
+      this.pending = [];
+      this.error = error instanceof Error ? error : new Error(String(error));
+      this.report(this.error);
+      return undefined;
+    }
+    this.stream.on('error', (error) => this.report(error));
+    for (const line of this.pending) {
+      this.stream.write(line);
+    }
+    this.pending = [];
+    return this.stream;
+  }
+
+  private report(error: Error) {
+    try {
+      this.onError(error);
+    } catch {
+      // Ignore errors in error handlers
+    }
+  }
+
+  private write(entry: CaptureEntry) {
+    if (this.closed) return;
+    const line = `${JSON.stringify(entry)}\n`;
+    if (this.stream) {
+      this.stream.write(line);
+    } else {
+      this.pending.push(line);
+    }
+  }
+}
+
+/**
+ * Parse an NDJSON capture log
+ */
+export function parseCapture(text: string): CaptureEntry[] {
+  return text
+    .split('\n')
+    .filter((line) => line.trim().length > 0)
+    .map((line) => JSON.parse(line) as CaptureEntry);
+}
+
+/**
+ * Read and parse an NDJSON capture log from a file
+ */
+export async function readCapture(path: string): Promise<CaptureEntry[]> {
+  return parseCapture(await readFile(path, 'utf8'));
+}
@@ -0,0 +1,58 @@
+export type EventMap = { [event: string]: unknown[] };
+
+export type Listener<TArgs extends unknown[]> = (...args: TArgs) => void;
+
+/**
+ * Minimal typed event emitter used by sessions and helpers
+ */
+export class TypedEmitter<TEvents extends EventMap> {
+  private listeners = new Map<keyof TEvents, Set<(...args: any[]) => void>>();
+
+  /**
+   * Register a listener for an event
+   */
+  public on<K extends keyof TEvents>(event: K, listener: Listener<TEvents[K]>): this {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener);
+    return this;
+  }
+
+  /**
+   * Register a listener that is removed after its first invocation
+   */
+  public once<K extends keyof TEvents>(event: K, listener: Listener<TEvents[K]>): this {
+    const wrapper = (...args: TEvents[K]) => {
+      this.off(event, wrapper);
+      listener(...args);
+    };
+    return this.on(event, wrapper);
+  }
+
+  /**
+   * Remove a previously registered listener
+   */
+  public off<K extends keyof TEvents>(event: K, listener: Listener<TEvents[K]>): this {
+    this.listeners.get(event)?.delete(listener);
+    return this;
+  }
+
+  /**
+   * Number of listeners registered for an event
+   */
+  public listenerCount(event: keyof TEvents): number {
+    return this.listeners.get(event)?.size ?? 0;
+  }
+
+  /** @internal */
+  public emit<K extends keyof TEvents>(event: K, ...args: TEvents[K]): void {
+    const set = this.listeners.get(event);
+    if (!set) return;
+    for (const listener of [...set]) {
+      listener(...args);
+    }
+  }
+}
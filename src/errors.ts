@@ -0,0 +1,95 @@
+import type { z } from 'zod';
+
+/**
+ * Base class for errors raised by the SDK
+ */
+export class PlivoStreamError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Raised when audio cannot be decoded, encoded or sent in the requested format
+ */
+export class AudioFormatError extends PlivoStreamError {}
+
+/**
+ * Raised when Plivo does not acknowledge a `checkpoint` or `clearAudio` in time
+ */
+export class AckTimeoutError extends PlivoStreamError {
+  constructor(
+    public readonly action: 'checkpoint' | 'clearAudio',
+    public readonly timeoutMs: number,
+    public readonly checkpointName?: string,
+  ) {
+    super(
+      `${action}${checkpointName !== undefined ? ` '${checkpointName}'` : ''} was not acknowledged within ${timeoutMs}ms`,
+    );
+  }
+}
+
+/**
+ * Raised when a pending `checkpoint` or `clearAudio` can no longer be acknowledged,
+ * because the connection closed or the queued audio was cleared before it was sent
+ */
+export class AckCancelledError extends PlivoStreamError {
+  constructor(
+    public readonly action: 'checkpoint' | 'clearAudio',
+    public readonly reason: 'closed' | 'cleared',
+    public readonly checkpointName?: string,
+  ) {
+    super(
+      `${action}${checkpointName !== undefined ? ` '${checkpointName}'` : ''} was cancelled: ${
+        reason === 'closed' ? 'connection closed' : 'audio cleared'
+      }`,
+    );
+  }
+}
+
+/**
+ * Raised when the start event's extra headers do not match the server's `headersSchema`.
+ * The stream is not started and `onStart` does not fire.
+ */
+export class HeaderValidationError extends PlivoStreamError {
+  constructor(
+    public readonly issues: z.core.$ZodIssue[],
+    public readonly extraHeaders: string,
+  ) {
+    super(`Invalid extra headers: ${issues.map(describeIssue).join('; ')}`);
+  }
+}
+
+/**
+ * Raised when an inbound event fails validation. `issues` are the zod issues; the message lists them.
+ */
+export class EventValidationError extends PlivoStreamError {
+  constructor(
+    public readonly issues: z.core.$ZodIssue[],
+    public readonly eventType: string,
+    public readonly streamId?: string,
+  ) {
+    super(
+      `Invalid ${eventType} event${streamId ? ` on stream ${streamId}` : ''}: ${issues.map(describeIssue).join('; ')}`,
+    );
+  }
+}
+
+/**
+ * Raised when a routed command cannot be delivered to, or fails on, the instance holding the stream
+ */
+export class RoutingError extends PlivoStreamError {
+  constructor(
+    public readonly reason: 'notFound' | 'timeout' | 'remote' | 'closed',
+    message: string,
+    /** Name of the error raised on the remote instance, for reason `remote` */
+    public readonly remoteName?: string,
+  ) {
+    super(message);
+  }
+}
+
+function describeIssue(issue: z.core.$ZodIssue): string {
+  return issue.path.length > 0 ? `${issue.path.map(String).join('.')}: ${issue.message}` : issue.message;
+}
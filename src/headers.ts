@@ -0,0 +1,39 @@
+/** Custom headers passed through the Stream XML `extraHeaders` attribute */
+export type ExtraHeaders = Record<string, string>;
+
+/**
+ * Parse a start event's `extra_headers` string into a record.
+ * Accepts a JSON object or `key=value` pairs separated by commas (values may be URI-encoded).
+ */
+export function parseExtraHeaders(raw: string): ExtraHeaders {
+  const trimmed = raw.trim();
+  if (!trimmed) return {};
+
+  if (trimmed.startsWith('{')) {
+    try {
+      const parsed: unknown = JSON.parse(trimmed);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        return Object.fromEntries(Object.entries(parsed).map(([key, value]) => [key, String(value)]));
+      }
+    } catch {
+      // Fall back to key=value pairs
+    }
+  }
+
+  const headers: ExtraHeaders = {};
+  for (const pair of trimmed.split(',')) {
+    const index = pair.indexOf('=');
+    const key = (index >= 0 ? pair.slice(0, index) : pair).trim();
+    if (!key) continue;
+    headers[key] = index >= 0 ? decode(pair.slice(index + 1).trim()) : '';
+  }
+  return headers;
+}
+
+function decode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
@@ -1,5 +1,7 @@
 import { WebSocketServer, type ServerOptions, type WebSocket as WebSocketType } from 'ws';
 import type { IncomingMessage } from 'http';
+import type { Duplex } from 'stream';
+import { z } from 'zod';
 import type {
   StartEvent,
   MediaEvent,
@@ -9,15 +11,29 @@ import type {
   PlayAudioEvent,
   CheckpointEvent,
   ClearAudioEvent,
+  InboundEvent,
+  UnknownEvent,
 } from './types.js';
-import { validateV3Signature } from 'plivo';
-import {
-  ClearedAudioEventSchema,
-  DTMFEventSchema,
-  MediaEventSchema,
-  PlayedStreamEventSchema,
-  StartEventSchema,
-} from './types.js';
+import { PlivoStreamSession } from './session.js';
+import type { AudioPlayerOptions } from './player.js';
+import type { AckOptions, AckTimeouts, AudioStreamOptions, CloseInfo } from './session.js';
+import type { MenuPrompt } from './ivr.js';
+import type { SpeechEvent, VadOptions } from './vad.js';
+import type { BargeInOptions, InterruptedEvent } from './bargein.js';
+import { JitterBuffer, type JitterBufferOptions } from './jitter.js';
+import type { RecorderOptions } from './recorder.js';
+import type { LivenessOptions, MediaTimeoutEvent } from './liveness.js';
+import { StreamCapture, readCapture, type CaptureEntry, type CaptureOptions } from './capture.js';
+import { SignatureVerifier, createVerifyClient, type NonceCacheOptions } from './signature.js';
+import { createLogger, type Logger } from './logger.js';
+import { ReplaySocket, createReplayRequest, replayEntries, type ReplayOptions, type ReplayResult } from './replay.js';
+import type { ExtraHeaders } from './headers.js';
+import { MiddlewareRunner, type Middleware } from './middleware.js';
+import { SessionRegistry } from './registry.js';
+import { CommandRouter, type CommandRouterOptions } from './routing.js';
+import { ServerMetrics } from './metrics.js';
+import { EventValidationError, HeaderValidationError } from './errors.js';
+import { isInboundEventType, parseInboundEvent, parseMediaMessage, type ValidationMode } from './validation.js';
 
 // Re-export types for consumers
 export type {
@@ -29,10 +45,111 @@ export type {
   PlayAudioEvent,
   CheckpointEvent,
   ClearAudioEvent,
+  MediaEventData,
+  MediaFormat,
+  RawStartEvent,
+  InboundEvent,
+  OutboundEvent,
+  UnknownEvent,
 } from './types.js';
 
+export { PlivoStreamSession } from './session.js';
+export { AudioPlayer } from './player.js';
+export { PlaybackQueue, Utterance } from './queue.js';
+export type { UtteranceState, UtteranceOptions, PlaybackQueueEventMap } from './queue.js';
+export { VoiceActivityDetector, frameLevel } from './vad.js';
+export type { VadOptions, VadEventMap, SpeechEvent } from './vad.js';
+export { BargeInController } from './bargein.js';
+export type { BargeInOptions, InterruptedEvent } from './bargein.js';
+export { JitterBuffer } from './jitter.js';
+export type { JitterBufferOptions, MediaStats } from './jitter.js';
+export { LivenessMonitor } from './liveness.js';
+export type { LivenessOptions, MediaTimeoutEvent } from './liveness.js';
+export { CallRecorder } from './recorder.js';
+export type { RecorderOptions, RecordingChannels, RecordingDestination, RecordingSummary } from './recorder.js';
+export { wavHeader, parseWav, WAV_HEADER_SIZE } from './wav.js';
+export type { WavInfo } from './wav.js';
+export { StreamCapture, parseCapture, readCapture } from './capture.js';
+export type { CaptureOptions, CaptureDestination, CaptureEntry } from './capture.js';
+export { ReplaySocket } from './replay.js';
+export { InboundAudioStream, OutboundAudioStream } from './streams.js';
+export { attachToServer, fastifyPlivoStream, createBunAdapter, BunSocket } from './adapters.js';
+export type {
+  FastifyInstanceLike,
+  BunAdapter,
+  BunServerLike,
+  BunServerWebSocket,
+  BunSocketData,
+} from './adapters.js';
+export type { AudioStreamFormat, InboundAudioOptions, OutboundAudioOptions } from './streams.js';
+export { SignatureVerifier, NonceCache, createVerifyClient } from './signature.js';
+export type { SignatureVerifierOptions, SignatureCheck, NonceCacheOptions } from './signature.js';
+export { createLogger, redact } from './logger.js';
+export type { Logger, BoundLogger, LogFn, LogLevel } from './logger.js';
+export { collectDigits, runMenu } from './ivr.js';
+export type { CollectDigitsOptions, CollectedDigits, MenuOptions, MenuPrompt, MenuRoute, MenuResult } from './ivr.js';
+export type { ReplayOptions, ReplayResult } from './replay.js';
+export { PlivoStreamSimulator, SimulatorTimeoutError, signV3 } from './simulator.js';
+export type {
+  PlivoStreamSimulatorOptions,
+  SimulatorStartOptions,
+  SendAudioOptions,
+  ReceivedAudio,
+  SimulatorEventMap,
+} from './simulator.js';
+export type { AudioPlayerOptions } from './player.js';
+export {
+  PlivoStreamError,
+  AudioFormatError,
+  AckTimeoutError,
+  AckCancelledError,
+  HeaderValidationError,
+  EventValidationError,
+  RoutingError,
+} from './errors.js';
+export { parseInboundEvent, isInboundEventType } from './validation.js';
+export type { ValidationMode } from './validation.js';
+export { parseExtraHeaders } from './headers.js';
+export type { Middleware, MiddlewareContext } from './middleware.js';
+export { SessionRegistry } from './registry.js';
+export { CommandRouter, RoutedSession } from './routing.js';
+export type { CommandRouterOptions, RoutedCommand, RoutingMessage, RoutingTransport } from './routing.js';
+export { InMemoryTransport, IpcTransport, relayIpcRouting } from './transports.js';
+export { ServerMetrics, SessionMetrics, Histogram, renderPrometheus } from './metrics.js';
+export type { ServerMetricsSnapshot, SessionMetricsSnapshot, HistogramSnapshot, MediaCounters } from './metrics.js';
+export type { SessionRegistryEventMap } from './registry.js';
+export type { ExtraHeaders } from './headers.js';
+export {
+  CONTENT_TYPES,
+  parseEncoding,
+  bytesPerSample,
+  mulawToPcm16,
+  pcm16ToMulaw,
+  alawToPcm16,
+  pcm16ToAlaw,
+  resamplePcm16,
+  decodeToPcm16,
+  encodeFromPcm16,
+  mediaToPcm16,
+  pcm16ToMedia,
+} from './audio.js';
+export type { AudioEncoding, Pcm16Options } from './audio.js';
+export type {
+  SessionEventMap,
+  SessionEventName,
+  SessionListener,
+  PlivoStreamSessionOptions,
+  AckOptions,
+  AckTimeouts,
+  OutboundAudio,
+  CloseReason,
+  CloseInfo,
+  AudioStreamOptions,
+} from './session.js';
+
 export {
   IncomingEventEnum,
+  MediaFrame,
   OutgoingEventEnum,
   StartEventSchema,
   MediaEventSchema,
@@ -41,54 +158,264 @@ export {
   ClearedAudioEventSchema,
 } from './types';
 
-export interface PlivoWebSocketServerOptions extends ServerOptions {
+export interface PlivoWebSocketServerOptions<THeaders extends object = ExtraHeaders> extends ServerOptions {
   /**
    * Whether to validate the V3 signature on incoming WebSocket connections.
+   * Upgrade requests without a valid signature are rejected with HTTP 403.
    * If true, `authToken` must also be provided.
    */
   validateSignature?: boolean;
   /**
-   * The Plivo auth token used for V3 signature validation.
+   * The Plivo auth token used for V3 signature validation, or several while rotating tokens.
    * Required if `validateSignature` is true.
    */
-  authToken?: string;
+  authToken?: string | string[];
+  /**
+   * Trust `X-Forwarded-Proto` / `X-Forwarded-Host` from a TLS-terminating proxy or load balancer
+   * when rebuilding the signed URL (default: false).
+   */
+  trustProxy?: boolean;
+  /**
+   * Bounds for the cache of seen signature nonces used to reject replayed signatures,
+   * or `false` to disable replay protection.
+   */
+  nonceCache?: NonceCacheOptions | false;
+  /**
+   * Options for each session's paced outbound audio player
+   * (frame duration, real-time lead and send-buffer backpressure threshold).
+   */
+  playback?: AudioPlayerOptions;
+  /**
+   * Defaults for each session's `inbound` audio `Readable` (track, raw or PCM16) and `outbound` audio `Writable`.
+   */
+  audioStreams?: AudioStreamOptions;
+  /**
+   * Default timeouts for checkpoint (`playedStream`) and clearAudio (`clearedAudio`) acknowledgements.
+   */
+  ackTimeouts?: AckTimeouts;
+  /**
+   * Enable energy-based voice activity detection on every stream's inbound media.
+   * Pass `true` for defaults or an options object to tune threshold, hangover and minimum speech duration.
+   */
+  vad?: boolean | VadOptions;
+  /**
+   * Enable automatic barge-in on every stream: caller speech (or configured DTMF digits) while outbound
+   * audio is playing clears it and fires `onInterrupted`.
+   */
+  bargeIn?: boolean | BargeInOptions;
+  /**
+   * Reorder inbound media by chunk number, detect gaps and duplicates, optionally fill lost frames
+   * with silence, and collect per-stream loss statistics (`session.mediaStats`).
+   */
+  jitterBuffer?: boolean | JitterBufferOptions;
+  /**
+   * Record every call to a WAV file. Use a `destination` function to pick a file path or stream
+   * per call (it runs once the start event has arrived, so `session.callId` is available).
+   */
+  record?: RecorderOptions;
+  /**
+   * Write every inbound and outbound message of each connection, with timestamps, to an NDJSON log
+   * that `replay()` can feed back through the handlers.
+   */
+  capture?: CaptureOptions;
+  /**
+   * Structured logger (pino-compatible: `debug`/`info`/`warn`/`error(fields, message)`, optional `child`).
+   * Each connection gets a child logger bound to its callId/streamId. Auth tokens, signatures and media
+   * payloads are redacted. Nothing is logged by default.
+   */
+  logger?: Logger;
+  /**
+   * Zod schema for the parsed `extra_headers` of the start event. Its output becomes `session.headers`
+   * and types the server's `THeaders` parameter. If validation fails, a `HeaderValidationError` is
+   * reported through `onError` and the stream is not started (`onStart` does not fire).
+   */
+  headersSchema?: z.ZodType<THeaders>;
+  /**
+   * Connection liveness checks: WebSocket ping/pong (unresponsive sockets are terminated), a timeout for
+   * the start event, a media inactivity timeout (fires `onMediaTimeout`, and closes by default) and a
+   * maximum call duration. Connections closed by a check report it as the `reason` passed to `onClose`.
+   */
+  liveness?: LivenessOptions;
+  /**
+   * Route commands between server instances: this server's streams are announced over `transport`, and
+   * `router.call(callId)` reaches a call on whichever instance holds its socket.
+   */
+  routing?: CommandRouterOptions;
+  /**
+   * How strictly inbound events are validated (default: `strict`). `lenient` checks only the fields the SDK
+   * uses and keeps unknown fields; `off` skips validation. Failures are reported as `EventValidationError`.
+   * Outside `strict` mode, event types the SDK doesn't know only reach `onUnknownEvent` and never `onError`.
+   */
+  validation?: ValidationMode;
 }
 
-interface ConnectionMetadata {
-  streamId?: string;
-  accountId?: string;
-  callId?: string;
-  headers?: string;
+export type ConnectionCallback<TData extends object = Record<string, any>, THeaders extends object = ExtraHeaders> = (
+  ws: WebSocketType,
+  request: IncomingMessage,
+  session: PlivoStreamSession<TData, THeaders>,
+) => void | Promise<void>;
+
+export type EventCallback<
+  TEvent,
+  TData extends object = Record<string, any>,
+  THeaders extends object = ExtraHeaders,
+> = (
+  event: TEvent,
+  ws: WebSocketType,
+  session: PlivoStreamSession<TData, THeaders>,
+) => void;
+
+export type ErrorCallback<TData extends object = Record<string, any>, THeaders extends object = ExtraHeaders> = (
+  error: Error,
+  ws: WebSocketType,
+  session: PlivoStreamSession<TData, THeaders>,
+) => void;
+
+/**
+ * Receives every raw inbound message before it is parsed; return `false` to stop the SDK from processing it
+ */
+export type RawMessageCallback<TData extends object = Record<string, any>, THeaders extends object = ExtraHeaders> = (
+  message: string,
+  ws: WebSocketType,
+  session: PlivoStreamSession<TData, THeaders>,
+) => boolean | void;
+
+export type CloseCallback<TData extends object = Record<string, any>, THeaders extends object = ExtraHeaders> = (
+  ws: WebSocketType,
+  session: PlivoStreamSession<TData, THeaders>,
+  info: CloseInfo,
+) => void;
+
+export interface DrainOptions<TData extends object = Record<string, any>, THeaders extends object = ExtraHeaders> {
+  /** Milliseconds to wait for active calls to end before closing them (default: 30000) */
+  timeoutMs?: number;
+  /**
+   * Audio played to every started call when draining begins; each call is closed once it has played.
+   * A function may play its own audio per session (awaited before the call is closed).
+   */
+  goodbye?: MenuPrompt | ((session: PlivoStreamSession<TData, THeaders>) => unknown);
+  /** Close code for calls still active at the deadline (default: 1001, going away) */
+  closeCode?: number;
+}
+
+export interface DrainSummary {
+  /** Calls active when draining began */
+  active: number;
+  /** Calls that ended (or were closed after the goodbye) before the deadline */
+  ended: number;
+  /** Calls closed at the deadline */
+  cut: number;
+  /** Milliseconds the drain took */
+  durationMs: number;
+}
+
+/** Why an upgrade request was refused, for transports that answer the handshake themselves */
+export interface UpgradeRejection {
+  /** HTTP status to respond with */
+  status: 400 | 403 | 503;
+  message: string;
 }
 
-export type ConnectionCallback = (ws: WebSocketType, request: IncomingMessage) => void | Promise<void>;
+/** How long sockets closed at the drain deadline get to finish the close handshake before being terminated */
+const DRAIN_CLOSE_GRACE_MS = 2000;
 
-class PlivoWebSocketServer extends WebSocketServer {
+class PlivoWebSocketServer<
+  TData extends object = Record<string, any>,
+  THeaders extends object = ExtraHeaders,
+> extends WebSocketServer {
   private isStarted = false;
-  private connectionMetadata = new WeakMap<WebSocketType, ConnectionMetadata>();
-  private readonly validateSignatureEnabled: boolean;
-  private readonly authToken?: string;
+  private sessionsBySocket = new WeakMap<WebSocketType, PlivoStreamSession<TData, THeaders>>();
+  /** Sessions of open connections, with lookup by callId / streamId and `added` / `removed` events */
+  public readonly sessions = new SessionRegistry<TData, THeaders>();
+  /** Cross-instance command router, when the `routing` option is set */
+  public readonly router?: CommandRouter;
+  /** Server-wide stream metrics; `metrics.toPrometheus()` renders them for a `/metrics` endpoint */
+  public readonly metrics: ServerMetrics;
+  private draining?: Promise<DrainSummary>;
+  private readonly signatureVerifier?: SignatureVerifier;
+  private readonly logger: Logger;
+  private readonly playbackOptions?: AudioPlayerOptions;
+  private readonly audioStreamOptions?: AudioStreamOptions;
+  private readonly ackTimeouts?: AckTimeouts;
+  private readonly vadOptions?: VadOptions;
+  private readonly bargeInOptions?: BargeInOptions;
+  private readonly jitterBufferOptions?: JitterBufferOptions;
+  private readonly recordOptions?: RecorderOptions;
+  private readonly captureOptions?: CaptureOptions;
+  private readonly livenessOptions?: LivenessOptions;
+  private readonly validationMode: ValidationMode;
+  private readonly headersSchema?: z.ZodType<THeaders>;
 
   // Pre-registered callbacks
-  private connectionCallbacks: ConnectionCallback[] = [];
-  private startCallbacks: Array<(event: StartEvent, ws: WebSocketType) => void> = [];
-  private mediaCallbacks: Array<(event: MediaEvent, ws: WebSocketType) => void> = [];
-  private dtmfCallbacks: Array<(event: DTMFEvent, ws: WebSocketType) => void> = [];
-  private playedStreamCallbacks: Array<(event: PlayedStreamEvent, ws: WebSocketType) => void> = [];
-  private clearedAudioCallbacks: Array<(event: ClearedAudioEvent, ws: WebSocketType) => void> = [];
-  private errorCallbacks: Array<(error: Error, ws: WebSocketType) => void> = [];
-  private closeCallbacks: Array<(ws: WebSocketType) => void> = [];
-
-  constructor(options: PlivoWebSocketServerOptions, callback?: () => void) {
-    const { validateSignature, authToken, ...wsOptions } = options;
-    super(wsOptions, callback);
-
-    this.validateSignatureEnabled = validateSignature ?? false;
-    this.authToken = authToken;
-
-    if (this.validateSignatureEnabled && !this.authToken) {
+  private connectionCallbacks: ConnectionCallback<TData, THeaders>[] = [];
+  private startCallbacks: EventCallback<StartEvent<THeaders>, TData, THeaders>[] = [];
+  private mediaCallbacks: EventCallback<MediaEvent, TData, THeaders>[] = [];
+  private dtmfCallbacks: EventCallback<DTMFEvent, TData, THeaders>[] = [];
+  private playedStreamCallbacks: EventCallback<PlayedStreamEvent, TData, THeaders>[] = [];
+  private clearedAudioCallbacks: EventCallback<ClearedAudioEvent, TData, THeaders>[] = [];
+  private speechStartCallbacks: EventCallback<SpeechEvent, TData, THeaders>[] = [];
+  private speechEndCallbacks: EventCallback<SpeechEvent, TData, THeaders>[] = [];
+  private interruptedCallbacks: EventCallback<InterruptedEvent, TData, THeaders>[] = [];
+  private mediaTimeoutCallbacks: EventCallback<MediaTimeoutEvent, TData, THeaders>[] = [];
+  private unknownEventCallbacks: EventCallback<UnknownEvent, TData, THeaders>[] = [];
+  private rawMessageCallbacks: RawMessageCallback<TData, THeaders>[] = [];
+  private errorCallbacks: ErrorCallback<TData, THeaders>[] = [];
+  private closeCallbacks: CloseCallback<TData, THeaders>[] = [];
+  private middleware: Middleware<TData, THeaders>[] = [];
+
+  constructor(options: PlivoWebSocketServerOptions<THeaders>, callback?: () => void) {
+    const {
+      validateSignature,
+      authToken,
+      trustProxy,
+      nonceCache,
+      playback,
+      audioStreams,
+      ackTimeouts,
+      vad,
+      bargeIn,
+      jitterBuffer,
+      record,
+      capture,
+      logger,
+      headersSchema,
+      liveness,
+      routing,
+      validation,
+      ...wsOptions
+    } = options;
+    const authTokens = (Array.isArray(authToken) ? authToken : [authToken]).filter((token): token is string => !!token);
+    if (validateSignature && authTokens.length === 0) {
       throw new Error('authToken is required when validateSignature is enabled');
     }
+    const log = createLogger(logger);
+    const metrics = new ServerMetrics();
+    // Signatures are checked during the upgrade, before the WebSocket is accepted
+    const signatureVerifier = validateSignature
+      ? new SignatureVerifier({ authTokens, trustProxy, nonceCache })
+      : undefined;
+    const verifyClient =
+      signatureVerifier &&
+      createVerifyClient(signatureVerifier, wsOptions.verifyClient, log, (reason) => metrics.recordRejected(reason));
+    super(verifyClient ? { ...wsOptions, verifyClient } : wsOptions, callback);
+
+    this.signatureVerifier = signatureVerifier;
+    this.metrics = metrics;
+    this.logger = log;
+    this.playbackOptions = playback;
+    this.audioStreamOptions = audioStreams;
+    this.ackTimeouts = ackTimeouts;
+    this.vadOptions = vad === true ? {} : vad || undefined;
+    this.bargeInOptions = bargeIn === true ? {} : bargeIn || undefined;
+    this.jitterBufferOptions = jitterBuffer === true ? {} : jitterBuffer || undefined;
+    this.recordOptions = record;
+    this.captureOptions = capture;
+    this.headersSchema = headersSchema;
+    this.livenessOptions = liveness;
+    this.validationMode = validation ?? 'strict';
+    if (routing) {
+      this.router = new CommandRouter(this.sessions, routing, ackTimeouts);
+    }
   }
 
   /**
@@ -104,165 +431,468 @@ class PlivoWebSocketServer extends WebSocketServer {
     return this;
   }
 
-  private setupConnectionHandler() {
-    this.on('connection', async (ws: WebSocketType, request: IncomingMessage) => {
-      // Validate V3 signature if enabled
-      if (this.validateSignatureEnabled) {
-        const isValid = this.validateConnectionSignature(request);
-        if (!isValid) {
-          console.error('[PlivoWebSocketServer] V3 signature validation failed');
-          ws.close(1008, 'Signature validation failed');
-          return;
-        }
-      }
+  /**
+   * Whether `drain()` has been called; new connections are rejected with HTTP 503
+   */
+  public get isDraining(): boolean {
+    return this.draining !== undefined;
+  }
+
+  /**
+   * Gracefully shut down: reject new upgrades with HTTP 503, play the optional goodbye, wait for active
+   * calls to end until `timeoutMs`, close the rest with `closeCode`, then close the server (and its router).
+   * Resolves with how many calls ended on their own versus were cut. Calling it again returns the same result.
+   */
+  public drain(options: DrainOptions<TData, THeaders> = {}): Promise<DrainSummary> {
+    this.draining ??= this.runDrain(options);
+    return this.draining;
+  }
 
-      // Initialize metadata for this connection
-      this.connectionMetadata.set(ws, {});
+  /**
+   * Complete a WebSocket upgrade for this server, e.g. from an `upgrade` listener in `noServer` mode.
+   * Without a `callback`, the connection is accepted and handled like any other.
+   */
+  public override handleUpgrade(
+    request: IncomingMessage,
+    socket: Duplex,
+    upgradeHead: Buffer,
+    callback?: (client: WebSocketType, request: IncomingMessage) => void,
+  ): void {
+    if (this.draining) {
+      this.logger.debug({ url: request.url }, 'Upgrade rejected while draining');
+      socket.end('HTTP/1.1 503 Service Unavailable\r\nConnection: close\r\nContent-Length: 0\r\n\r\n');
+      return;
+    }
+    super.handleUpgrade(request, socket, upgradeHead, callback ?? ((ws) => this.emit('connection', ws, request)));
+  }
 
-      // Buffer messages until connection callbacks complete
-      const messageBuffer: any[] = [];
-      let isReady = false;
+  /**
+   * Apply the checks `handleUpgrade` makes (path, draining, signature) for a transport that performs the
+   * handshake itself. The `ws` `verifyClient` option is not applied.
+   * @internal
+   */
+  public checkUpgrade(request: IncomingMessage): UpgradeRejection | undefined {
+    if (!this.shouldHandle(request)) {
+      return { status: 400, message: 'Bad Request' };
+    }
+    if (this.draining) {
+      this.logger.debug({ url: request.url }, 'Upgrade rejected while draining');
+      return { status: 503, message: 'Service Unavailable' };
+    }
+    const check = this.signatureVerifier?.verify(request);
+    if (check && !check.valid) {
+      this.logger.warn({ reason: check.reason, url: request.url }, 'V3 signature validation failed');
+      this.metrics.recordRejected(check.reason!);
+      return { status: 403, message: 'Forbidden' };
+    }
+    return undefined;
+  }
 
-      ws.on('message', (data) => {
-        try {
-          const parsed = JSON.parse(data.toString());
-          if (isReady) {
-            this.handleIncomingEvent(parsed, ws);
-          } else {
-            messageBuffer.push(parsed);
-          }
-        } catch (error) {
-          this.handleError(
-            new Error(`Failed to parse message: ${error instanceof Error ? error.message : String(error)}`),
-            ws,
-          );
-        }
-      });
+  private async runDrain(options: DrainOptions<TData, THeaders>): Promise<DrainSummary> {
+    const { timeoutMs = 30000, goodbye, closeCode = 1001 } = options;
+    const startedAt = Date.now();
+    const sessions = [...this.sessions];
+    this.logger.info({ active: sessions.length, timeoutMs }, 'Draining');
 
-      ws.on('error', () => {
-        this.handleError(new Error('WebSocket error occurred'), ws);
+    const closed = sessions.map((session) =>
+      session.isActive ? new Promise<void>((resolve) => session.once('close', () => resolve())) : Promise.resolve(),
+    );
+    if (goodbye) {
+      sessions.filter((session) => session.isStarted && session.isActive).forEach((session) => {
+        this.sayGoodbye(session, goodbye).catch(() => {});
       });
+    }
 
-      ws.on('close', () => {
-        this.closeCallbacks.forEach((cb) => cb(ws));
-      });
+    let deadline: ReturnType<typeof setTimeout> | undefined;
+    await Promise.race([
+      Promise.all(closed),
+      new Promise<void>((resolve) => {
+        deadline = setTimeout(resolve, timeoutMs);
+      }),
+    ]);
+    clearTimeout(deadline);
 
-      try {
-        // Run connection callbacks
-        for (const cb of this.connectionCallbacks) {
-          await cb(ws, request);
-        }
+    const remaining = sessions.filter((session) => session.closeInfo === undefined);
+    for (const session of remaining) {
+      session.closeFor('shutdown', closeCode, 'Server shutting down');
+    }
+    if (remaining.length > 0) {
+      let grace: ReturnType<typeof setTimeout> | undefined;
+      await Promise.race([
+        Promise.all(closed),
+        new Promise<void>((resolve) => {
+          grace = setTimeout(resolve, DRAIN_CLOSE_GRACE_MS);
+        }),
+      ]);
+      clearTimeout(grace);
+      for (const session of remaining) {
+        if (session.closeInfo === undefined) session.closeFor('shutdown');
+      }
+    }
+
+    await new Promise<void>((resolve) => this.close(() => resolve()));
+    this.router?.close();
+    const summary: DrainSummary = {
+      active: sessions.length,
+      ended: sessions.length - remaining.length,
+      cut: remaining.length,
+      durationMs: Date.now() - startedAt,
+    };
+    this.logger.info({ ...summary }, 'Drained');
+    return summary;
+  }
 
-        // Process buffered messages
-        isReady = true;
-        for (const msg of messageBuffer) {
-          this.handleIncomingEvent(msg, ws);
+  private async sayGoodbye(
+    session: PlivoStreamSession<TData, THeaders>,
+    goodbye: NonNullable<DrainOptions<TData, THeaders>['goodbye']>,
+  ) {
+    if (typeof goodbye === 'function') {
+      await goodbye(session);
+    } else {
+      session.playAudio(goodbye.contentType, goodbye.sampleRate, goodbye.payload);
+      await session.checkpoint('goodbye');
+    }
+    if (session.isActive) {
+      session.closeFor('shutdown', 1000, 'Goodbye');
+    }
+  }
+
+  /**
+   * Feed a capture log (file path or parsed entries) back through the registered handlers, as if the
+   * captured call had connected again. Outbound messages are collected instead of sent.
+   * Resolves once the log has been replayed and the replayed connection has closed.
+   */
+  public async replay(
+    source: string | CaptureEntry[],
+    options: ReplayOptions = {},
+  ): Promise<ReplayResult<TData, THeaders>> {
+    const entries = typeof source === 'string' ? await readCapture(source) : source;
+    const connection = entries.find((entry) => entry.type === 'connection');
+    const socket = new ReplaySocket();
+    const ws = socket as unknown as WebSocketType;
+
+    const setup = this.handleConnection(ws, createReplayRequest(connection));
+    const session = this.sessionsBySocket.get(ws)!;
+    await replayEntries(entries, socket, options);
+    await setup;
+
+    return {
+      session,
+      sent: socket.sent,
+      recorded: entries.flatMap((entry) => (entry.type === 'outbound' ? [entry.message] : [])),
+    };
+  }
+
+  private setupConnectionHandler() {
+    this.on('connection', (ws: WebSocketType, request: IncomingMessage) => {
+      this.handleConnection(ws, request, true);
+    });
+  }
+
+  /**
+   * Set up a session for an accepted socket. Capture and liveness checks only apply to `live`
+   * connections, not to replays.
+   */
+  private async handleConnection(ws: WebSocketType, request: IncomingMessage, live = false) {
+    // Create the session for this connection
+    const session = new PlivoStreamSession<TData, THeaders>(ws, request, {
+      playback: this.playbackOptions,
+      audioStreams: this.audioStreamOptions,
+      ackTimeouts: this.ackTimeouts,
+      vad: this.vadOptions,
+      bargeIn: this.bargeInOptions,
+      // A replay must not record over the original call's file
+      record: live ? this.recordOptions : undefined,
+      logger: this.logger,
+      liveness: live ? this.livenessOptions : undefined,
+      onError: (error) => this.handleError(error, session),
+      metrics: live ? this.metrics : undefined,
+    });
+    this.sessionsBySocket.set(ws, session);
+    if (live) {
+      this.metrics.recordConnection();
+      this.sessions.add(session);
+    }
+    session.logger.debug({ url: request.url, remoteAddress: request.socket?.remoteAddress }, 'Connection accepted');
+    if (live && this.captureOptions) {
+      session.capture = new StreamCapture(session, this.captureOptions, (error) => this.handleError(error, session));
+    }
+    if (this.middleware.length > 0) {
+      session.middleware = new MiddlewareRunner(this.middleware, session, (error) =>
+        this.handleError(new Error(`Middleware failed: ${error.message}`), session),
+      );
+    }
+    if (this.jitterBufferOptions) {
+      session.jitterBuffer = new JitterBuffer(
+        (event) => this.dispatchMedia(event, session),
+        () => session.mediaFormat,
+        this.jitterBufferOptions,
+      );
+    }
+    session.on('speechStart', (event) => this.speechStartCallbacks.forEach((cb) => cb(event, ws, session)));
+    session.on('speechEnd', (event) => this.speechEndCallbacks.forEach((cb) => cb(event, ws, session)));
+    session.on('interrupted', (event) => this.interruptedCallbacks.forEach((cb) => cb(event, ws, session)));
+    session.on('mediaTimeout', (event) => this.mediaTimeoutCallbacks.forEach((cb) => cb(event, ws, session)));
+
+    // Buffer messages until connection callbacks complete
+    const messageBuffer: any[] = [];
+    let isReady = false;
+
+    ws.on('message', (data) => {
+      const message = data.toString();
+      session.capture?.inbound(message);
+      if (!this.handleRawMessage(message, session)) return;
+      // Media frames are read from the string itself; everything else is parsed and validated
+      const frame = isReady ? parseMediaMessage(message, session.streamId) : undefined;
+      if (frame) {
+        this.routeIncomingEvent(frame, session);
+        return;
+      }
+      try {
+        const parsed = JSON.parse(message);
+        if (isReady) {
+          this.handleIncomingEvent(parsed, session);
+        } else {
+          messageBuffer.push(parsed);
         }
       } catch (error) {
-        const err = error instanceof Error ? error : new Error(String(error));
-        console.error('[PlivoWebSocketServer] Connection setup failed:', err.message);
-        this.errorCallbacks.forEach((cb) => {
-          try {
-            cb(err, ws);
-          } catch {
-            // Ignore errors in error handlers
-          }
-        });
+        session.metrics.recordError('invalid_json');
+        this.handleError(
+          new Error(`Failed to parse message: ${error instanceof Error ? error.message : String(error)}`),
+          session,
+        );
+      }
+    });
+
+    ws.on('error', () => {
+      this.handleError(new Error('WebSocket error occurred'), session);
+    });
+
+    ws.on('close', (code: number, reason: Buffer) => {
+      const info: CloseInfo = { reason: session.closeReason, code, message: reason.toString() };
+      this.sessions.remove(session, info);
+      session.logger.info({ ...info }, 'Stream closed');
+      session.capture?.close(code, info.message).catch(() => {});
+      const finish = () => {
+        // Frames held for reordering reach the media handlers before onClose
+        session.jitterBuffer?.flush();
+        this.closeCallbacks.forEach((cb) => cb(ws, session, info));
+        session.handleClose(info);
+      };
+      // Let events already in the middleware chain reach the handlers first
+      if (session.middleware) {
+        session.middleware.inboundSettled().then(finish, finish);
+      } else {
+        finish();
+      }
+    });
+
+    try {
+      // Run connection callbacks
+      for (const cb of this.connectionCallbacks) {
+        await cb(ws, request, session);
+      }
+
+      // Process buffered messages
+      isReady = true;
+      for (const msg of messageBuffer) {
+        this.handleIncomingEvent(msg, session);
+      }
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      session.logger.error({ err }, 'Connection setup failed');
+      this.errorCallbacks.forEach((cb) => {
         try {
-          ws.close(1011, 'Connection setup failed');
+          cb(err, ws, session);
         } catch {
-          // Ignore close errors
+          // Ignore errors in error handlers
         }
+      });
+      try {
+        session.emit('error', err);
+      } catch {
+        // Ignore errors in error handlers
       }
-    });
+      try {
+        ws.close(1011, 'Connection setup failed');
+      } catch {
+        // Ignore close errors
+      }
+    }
   }
 
-  private validateConnectionSignature(request: IncomingMessage): boolean {
-    console.log('validateConnectionSignature', request.headers);
-    const signature = request.headers['x-plivo-signature-v3'] as string | undefined;
-    const nonce = request.headers['x-plivo-signature-v3-nonce'] as string | undefined;
-
-    if (!signature || !nonce) {
-      console.error('[PlivoWebSocketServer] Missing V3 signature headers');
-      return false;
+  /**
+   * Run the raw message callbacks, returning false if one of them consumed the message
+   */
+  private handleRawMessage(message: string, session: PlivoStreamSession<TData, THeaders>): boolean {
+    let proceed = true;
+    for (const cb of this.rawMessageCallbacks) {
+      try {
+        if (cb(message, session.ws, session) === false) proceed = false;
+      } catch (error) {
+        this.handleError(error instanceof Error ? error : new Error(String(error)), session);
+      }
     }
+    return proceed;
+  }
 
-    // Construct the full URI from the request
-    const host = request.headers.host || '';
-    const protocol = (request.socket as any).encrypted ? 'https' : 'http';
-    const uri = `${protocol}://${host}${request.url || '/'}`;
+  private handleIncomingEvent(data: any, session: PlivoStreamSession<TData, THeaders>) {
+    if (!isInboundEventType(data?.event)) {
+      this.handleUnknownEvent(data, session);
+      return;
+    }
 
+    let event: InboundEvent<THeaders> | undefined;
     try {
-      // Coerce Boolean wrapper to primitive boolean
-      console.log('validateV3Signature', request.method ?? 'GET', uri, nonce, this.authToken!, signature);
-      return !!validateV3Signature(request.method ?? 'GET', uri, nonce, this.authToken!, signature);
+      event = this.parseIncomingEvent(data, session);
     } catch (error) {
-      console.error('[PlivoWebSocketServer] Signature validation error:', error);
-      return false;
+      session.metrics.recordError(data.event);
+      const streamId = data.streamId ?? data.start?.streamId ?? session.streamId;
+      this.handleError(
+        error instanceof z.ZodError
+          ? new EventValidationError(error.issues, data.event, streamId)
+          : new Error(`Failed to handle event: ${error instanceof Error ? error.message : String(error)}`),
+        session,
+      );
+    }
+    if (!event) return;
+    this.routeIncomingEvent(event, session);
+  }
+
+  private routeIncomingEvent(event: InboundEvent<THeaders>, session: PlivoStreamSession<TData, THeaders>) {
+    if (session.middleware) {
+      session.middleware.inbound(event, (transformed) => this.dispatchIncomingEvent(transformed, session));
+    } else {
+      this.dispatchIncomingEvent(event, session);
     }
   }
 
-  private handleIncomingEvent(data: any, ws: WebSocketType) {
+  private parseIncomingEvent(
+    data: { event: InboundEvent['event'] },
+    session: PlivoStreamSession<TData, THeaders>,
+  ): InboundEvent<THeaders> | undefined {
+    const event = parseInboundEvent(data, this.validationMode, session.streamId) as InboundEvent<THeaders>;
+    if (event.event === 'start' && this.headersSchema) {
+      const result = this.headersSchema.safeParse(event.headers);
+      if (!result.success) {
+        session.metrics.recordError('start');
+        this.handleError(new HeaderValidationError(result.error.issues, event.extra_headers), session);
+        return undefined;
+      }
+      event.headers = result.data;
+    }
+    return event;
+  }
+
+  private handleUnknownEvent(data: unknown, session: PlivoStreamSession<TData, THeaders>) {
+    const event = (typeof data === 'object' && data !== null ? data : { event: undefined, data }) as UnknownEvent;
+    const handled = this.unknownEventCallbacks.length > 0 || session.listenerCount('unknownEvent') > 0;
     try {
-      const metadata = this.connectionMetadata.get(ws) || {};
+      this.unknownEventCallbacks.forEach((cb) => cb(event, session.ws, session));
+      session.emit('unknownEvent', event);
+    } catch (error) {
+      this.handleError(
+        new Error(`Failed to handle event: ${error instanceof Error ? error.message : String(error)}`),
+        session,
+      );
+    }
+    if (!handled && this.validationMode === 'strict') {
+      // Not labelled by the unknown type, to keep metric cardinality bounded
+      session.metrics.recordError('unknown');
+      this.handleError(new Error(`Unknown event type: ${String(event.event)}`), session);
+    }
+  }
 
-      switch (data.event) {
+  private dispatchIncomingEvent(event: InboundEvent<THeaders>, session: PlivoStreamSession<TData, THeaders>) {
+    const ws = session.ws;
+    try {
+      switch (event.event) {
         case 'start':
-          const startEvent = StartEventSchema.parse(data);
-          metadata.streamId = startEvent.start.streamId;
-          metadata.accountId = startEvent.start.accountId;
-          metadata.callId = startEvent.start.callId;
-          metadata.headers = startEvent.extra_headers;
-          this.connectionMetadata.set(ws, metadata);
-          this.startCallbacks.forEach((cb) => cb(startEvent, ws));
+          session.handleStart(event);
+          this.sessions.index(session);
+          session.logger.info({ mediaFormat: event.start.mediaFormat }, 'Stream started');
+          this.startCallbacks.forEach((cb) => cb(event, ws, session));
+          session.emit('start', event);
           break;
 
         case 'media':
-          const mediaEvent = MediaEventSchema.parse(data);
-          this.mediaCallbacks.forEach((cb) => cb(mediaEvent, ws));
+          session.metrics.recordMedia('inbound', Buffer.byteLength(event.media.payload, 'base64'));
+          event.mediaFormat = session.mediaFormat;
+          if (session.jitterBuffer) {
+            session.jitterBuffer.push(event);
+          } else {
+            this.dispatchMedia(event, session);
+          }
           break;
 
         case 'dtmf':
-          const dtmfEvent = DTMFEventSchema.parse(data);
-          this.dtmfCallbacks.forEach((cb) => cb(dtmfEvent, ws));
+          this.dtmfCallbacks.forEach((cb) => cb(event, ws, session));
+          session.emit('dtmf', event);
           break;
 
         case 'playedStream':
-          const playedStreamEvent = PlayedStreamEventSchema.parse(data);
-          this.playedStreamCallbacks.forEach((cb) => cb(playedStreamEvent, ws));
+          session.handlePlayedStream(event);
+          this.playedStreamCallbacks.forEach((cb) => cb(event, ws, session));
+          session.emit('playedStream', event);
           break;
 
         case 'clearedAudio':
-          const clearedAudioEvent = ClearedAudioEventSchema.parse(data);
-          this.clearedAudioCallbacks.forEach((cb) => cb(clearedAudioEvent, ws));
+          session.handleClearedAudio(event);
+          this.clearedAudioCallbacks.forEach((cb) => cb(event, ws, session));
+          session.emit('clearedAudio', event);
           break;
-
-        default:
-          this.handleError(new Error(`Unknown event type: ${data.event}`), ws);
       }
     } catch (error) {
       this.handleError(
         new Error(`Failed to handle event: ${error instanceof Error ? error.message : String(error)}`),
-        ws,
+        session,
       );
     }
   }
 
-  private handleError(error: Error, ws: WebSocketType) {
+  private dispatchMedia(event: MediaEvent, session: PlivoStreamSession<TData, THeaders>) {
+    try {
+      session.handleMedia(event);
+      this.mediaCallbacks.forEach((cb) => cb(event, session.ws, session));
+      session.emit('media', event);
+    } catch (error) {
+      this.handleError(
+        new Error(`Failed to handle event: ${error instanceof Error ? error.message : String(error)}`),
+        session,
+      );
+    }
+  }
+
+  private handleError(error: Error, session: PlivoStreamSession<TData, THeaders>) {
+    const hasSessionListeners = session.listenerCount('error') > 0;
     if (this.errorCallbacks.length > 0) {
-      this.errorCallbacks.forEach((cb) => cb(error, ws));
-    } else {
-      console.error('[PlivoWebSocketServer] Error:', error);
+      this.errorCallbacks.forEach((cb) => cb(error, session.ws, session));
+    } else if (!hasSessionListeners) {
+      session.logger.error({ err: error }, 'Unhandled stream error');
+    }
+    if (hasSessionListeners) {
+      session.emit('error', error);
     }
   }
 
   // Event registration methods (chainable)
 
+  /**
+   * Add a middleware that sees every parsed inbound event and every outbound event, with its session.
+   * Middleware runs in registration order and may be async; events are processed one at a time per
+   * direction, so a middleware can inspect, transform (by replacing `context.event`), delay or drop
+   * them (by not calling `next()`). Register before `start()`.
+   */
+  public use(middleware: Middleware<TData, THeaders>): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
   /**
    * Register a callback for new connections.
    * Can be async - will be awaited before any WebSocket events are processed.
    */
-  public onConnection(callback: ConnectionCallback): this {
+  public onConnection(callback: ConnectionCallback<TData, THeaders>): this {
     this.connectionCallbacks.push(callback);
     return this;
   }
@@ -270,7 +900,7 @@ class PlivoWebSocketServer extends WebSocketServer {
   /**
    * Register a callback for the 'start' event on all connections
    */
-  public onStart(callback: (event: StartEvent, ws: WebSocketType) => void): this {
+  public onStart(callback: EventCallback<StartEvent<THeaders>, TData, THeaders>): this {
     this.startCallbacks.push(callback);
     return this;
   }
@@ -278,7 +908,7 @@ class PlivoWebSocketServer extends WebSocketServer {
   /**
    * Register a callback for the 'media' event on all connections
    */
-  public onMedia(callback: (event: MediaEvent, ws: WebSocketType) => void): this {
+  public onMedia(callback: EventCallback<MediaEvent, TData, THeaders>): this {
     this.mediaCallbacks.push(callback);
     return this;
   }
@@ -286,7 +916,7 @@ class PlivoWebSocketServer extends WebSocketServer {
   /**
    * Register a callback for the 'dtmf' event on all connections
    */
-  public onDtmf(callback: (event: DTMFEvent, ws: WebSocketType) => void): this {
+  public onDtmf(callback: EventCallback<DTMFEvent, TData, THeaders>): this {
     this.dtmfCallbacks.push(callback);
     return this;
   }
@@ -294,7 +924,7 @@ class PlivoWebSocketServer extends WebSocketServer {
   /**
    * Register a callback for the 'playedStream' event on all connections
    */
-  public onPlayedStream(callback: (event: PlayedStreamEvent, ws: WebSocketType) => void): this {
+  public onPlayedStream(callback: EventCallback<PlayedStreamEvent, TData, THeaders>): this {
     this.playedStreamCallbacks.push(callback);
     return this;
   }
@@ -302,23 +932,76 @@ class PlivoWebSocketServer extends WebSocketServer {
   /**
    * Register a callback for the 'clearedAudio' event on all connections
    */
-  public onClearedAudio(callback: (event: ClearedAudioEvent, ws: WebSocketType) => void): this {
+  public onClearedAudio(callback: EventCallback<ClearedAudioEvent, TData, THeaders>): this {
     this.clearedAudioCallbacks.push(callback);
     return this;
   }
 
+  /**
+   * Register a callback for detected speech onsets on all connections (requires the `vad` option
+   * or `session.enableVad()`)
+   */
+  public onSpeechStart(callback: EventCallback<SpeechEvent, TData, THeaders>): this {
+    this.speechStartCallbacks.push(callback);
+    return this;
+  }
+
+  /**
+   * Register a callback for detected end of speech on all connections (requires the `vad` option
+   * or `session.enableVad()`)
+   */
+  public onSpeechEnd(callback: EventCallback<SpeechEvent, TData, THeaders>): this {
+    this.speechEndCallbacks.push(callback);
+    return this;
+  }
+
+  /**
+   * Register a callback for barge-in interruptions on all connections (requires the `bargeIn` option
+   * or `session.enableBargeIn()`)
+   */
+  public onInterrupted(callback: EventCallback<InterruptedEvent, TData, THeaders>): this {
+    this.interruptedCallbacks.push(callback);
+    return this;
+  }
+
+  /**
+   * Register a callback for media inactivity timeouts on all connections (requires `liveness.mediaTimeoutMs`)
+   */
+  public onMediaTimeout(callback: EventCallback<MediaTimeoutEvent, TData, THeaders>): this {
+    this.mediaTimeoutCallbacks.push(callback);
+    return this;
+  }
+
+  /**
+   * Register a callback for inbound events of a type the SDK doesn't handle, with the raw payload.
+   * In `strict` validation mode, unknown events are reported to `onError` only if no such callback is registered.
+   */
+  public onUnknownEvent(callback: EventCallback<UnknownEvent, TData, THeaders>): this {
+    this.unknownEventCallbacks.push(callback);
+    return this;
+  }
+
+  /**
+   * Register a callback for every raw inbound message, before it is parsed.
+   * Returning `false` stops the SDK from processing the message any further.
+   */
+  public onRawMessage(callback: RawMessageCallback<TData, THeaders>): this {
+    this.rawMessageCallbacks.push(callback);
+    return this;
+  }
+
   /**
    * Register a callback for errors on all connections
    */
-  public onError(callback: (error: Error, ws: WebSocketType) => void): this {
+  public onError(callback: ErrorCallback<TData, THeaders>): this {
     this.errorCallbacks.push(callback);
     return this;
   }
 
   /**
-   * Register a callback for when connections close
+   * Register a callback for when connections close, with the reason they closed
    */
-  public onClose(callback: (ws: WebSocketType) => void): this {
+  public onClose(callback: CloseCallback<TData, THeaders>): this {
     this.closeCallbacks.push(callback);
     return this;
   }
@@ -338,86 +1021,76 @@ class PlivoWebSocketServer extends WebSocketServer {
     sampleRate: number,
     payload: Buffer | Uint8Array | ArrayBuffer,
   ) {
-    if (ws.readyState !== ws.OPEN) {
-      console.warn('Attempted to play audio on a closed WebSocket connection.');
-      return;
-    }
-
-    // Convert raw audio to base64
-    let base64Payload: string;
-    if (Buffer.isBuffer(payload)) {
-      base64Payload = payload.toString('base64');
-    } else if (payload instanceof ArrayBuffer) {
-      base64Payload = Buffer.from(payload).toString('base64');
-    } else {
-      base64Payload = Buffer.from(payload).toString('base64');
-    }
+    this.requireSession(ws).playAudio(contentType, sampleRate, payload);
+  }
 
-    const event: PlayAudioEvent = {
-      event: 'playAudio',
-      media: { contentType, sampleRate, payload: base64Payload },
-    };
+  /**
+   * Send PCM16 audio at any sample rate to a specific connection, transcoded to the stream's media format
+   */
+  public playPcm16(ws: WebSocketType, pcm: Buffer, sampleRate: number, contentType?: string) {
+    this.requireSession(ws).playPcm16(pcm, sampleRate, contentType);
+  }
 
-    ws.send(JSON.stringify(event));
+  /**
+   * Send a checkpoint event to a specific connection.
+   * Resolves when the matching `playedStream` event arrives.
+   */
+  public checkpoint(ws: WebSocketType, name: string, options?: AckOptions): Promise<PlayedStreamEvent> {
+    return this.requireSession(ws).checkpoint(name, options);
   }
 
   /**
-   * Send a checkpoint event to a specific connection
+   * Clear all queued audio for a specific connection.
+   * Resolves when the `clearedAudio` event arrives.
    */
-  public checkpoint(ws: WebSocketType, name: string) {
-    const metadata = this.connectionMetadata.get(ws);
-    if (ws.readyState !== ws.OPEN) {
-      throw new Error('WebSocket is not connected');
-    }
-    if (!metadata?.streamId) {
-      throw new Error('Stream ID not available. Wait for the start event.');
-    }
+  public clearAudio(ws: WebSocketType, options?: AckOptions): Promise<ClearedAudioEvent> {
+    return this.requireSession(ws).clearAudio(options);
+  }
 
-    const event: CheckpointEvent = {
-      event: 'checkpoint',
-      streamId: metadata.streamId,
-      name,
-    };
+  // Getters for connection metadata
 
-    ws.send(JSON.stringify(event));
+  /**
+   * Get the session for a connection accepted by this server
+   */
+  public getSession(ws: WebSocketType): PlivoStreamSession<TData, THeaders> | undefined {
+    return this.sessionsBySocket.get(ws);
   }
 
   /**
-   * Clear all queued audio for a specific connection
+   * Find the session of an active call
    */
-  public clearAudio(ws: WebSocketType) {
-    const metadata = this.connectionMetadata.get(ws);
-    if (ws.readyState !== ws.OPEN) {
-      throw new Error('WebSocket is not connected');
-    }
-    if (!metadata?.streamId) {
-      throw new Error('Stream ID not available. Wait for the start event.');
-    }
-
-    const event: ClearAudioEvent = {
-      event: 'clearAudio',
-      streamId: metadata.streamId,
-    };
-
-    ws.send(JSON.stringify(event));
+  public getSessionByCallId(callId: string): PlivoStreamSession<TData, THeaders> | undefined {
+    return this.sessions.getByCallId(callId);
   }
 
-  // Getters for connection metadata
+  /**
+   * Find the session of an active stream
+   */
+  public getSessionByStreamId(streamId: string): PlivoStreamSession<TData, THeaders> | undefined {
+    return this.sessions.getByStreamId(streamId);
+  }
 
   public getStreamId(ws: WebSocketType): string | undefined {
-    return this.connectionMetadata.get(ws)?.streamId;
+    return this.sessionsBySocket.get(ws)?.streamId;
   }
 
   public getAccountId(ws: WebSocketType): string | undefined {
-    return this.connectionMetadata.get(ws)?.accountId;
+    return this.sessionsBySocket.get(ws)?.accountId;
   }
 
   public getCallId(ws: WebSocketType): string | undefined {
-    return this.connectionMetadata.get(ws)?.callId;
+    return this.sessionsBySocket.get(ws)?.callId;
   }
 
   public getHeaders(ws: WebSocketType): string | undefined {
-    return this.connectionMetadata.get(ws)?.headers;
+    return this.sessionsBySocket.get(ws)?.extraHeaders;
+  }
+
+  /**
+   * Get the parsed (and, with `headersSchema`, validated) extra headers of a connection
+   */
+  public getParsedHeaders(ws: WebSocketType): THeaders | undefined {
+    return this.sessionsBySocket.get(ws)?.headers;
   }
 
   /**
@@ -426,6 +1099,14 @@ class PlivoWebSocketServer extends WebSocketServer {
   public isActive(ws: WebSocketType): boolean {
     return ws.readyState === ws.OPEN;
   }
+
+  private requireSession(ws: WebSocketType): PlivoStreamSession<TData, THeaders> {
+    const session = this.sessionsBySocket.get(ws);
+    if (!session) {
+      throw new Error('WebSocket connection is not managed by this PlivoWebSocketServer');
+    }
+    return session;
+  }
 }
 
 export { PlivoWebSocketServer };
@@ -0,0 +1,186 @@
+import type { PlivoStreamSession } from './session.js';
+import type { DTMFEvent } from './types.js';
+
+export interface CollectDigitsOptions {
+  /** Stop after this many digits (default: no limit) */
+  maxDigits?: number;
+  /** Digit that ends collection without being included, or '' to disable (default: '#') */
+  finishOnKey?: string;
+  /** Milliseconds to wait for the first digit (default: 5000) */
+  firstDigitTimeout?: number;
+  /** Milliseconds to wait for each following digit (default: 3000) */
+  interDigitTimeout?: number;
+  /** Check the collected digits; the result's `valid` reflects the outcome */
+  validate?: (digits: string) => boolean;
+  /** Stop as soon as this returns true for the digits collected so far */
+  complete?: (digits: string) => boolean;
+  /** DTMF track to listen on (default: any) */
+  track?: string;
+}
+
+export interface CollectedDigits {
+  digits: string;
+  /** Why collection stopped */
+  reason: 'maxDigits' | 'finishOnKey' | 'complete' | 'timeout' | 'hangup';
+  /** Whether at least one digit was collected and `validate` (if any) accepted them */
+  valid: boolean;
+}
+
+/**
+ * Gather DTMF digits from a session until `maxDigits`, `finishOnKey` or a timeout.
+ * Resolves early with reason `hangup` if the session closes.
+ */
+export function collectDigits(
+  session: PlivoStreamSession<any, any>,
+  options: CollectDigitsOptions = {},
+): Promise<CollectedDigits> {
+  const maxDigits = options.maxDigits ?? Infinity;
+  const finishOnKey = options.finishOnKey ?? '#';
+  const firstDigitTimeout = options.firstDigitTimeout ?? 5000;
+  const interDigitTimeout = options.interDigitTimeout ?? 3000;
+
+  return new Promise((resolve) => {
+    let digits = '';
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const finish = (reason: CollectedDigits['reason']) => {
+      clearTimeout(timer);
+      session.off('dtmf', onDtmf);
+      session.off('close', onClose);
+      const valid = digits.length > 0 && (options.validate ? options.validate(digits) : true);
+      resolve({ digits, reason, valid });
+    };
+    const arm = (ms: number) => {
+      clearTimeout(timer);
+      timer = setTimeout(() => finish('timeout'), ms);
+    };
+    const onDtmf = (event: DTMFEvent) => {
+      if (options.track && event.dtmf.track !== options.track) return;
+      const digit = event.dtmf.digit;
+      if (finishOnKey && digit === finishOnKey) {
+        finish('finishOnKey');
+        return;
+      }
+      digits += digit;
+      if (digits.length >= maxDigits) {
+        finish('maxDigits');
+      } else if (options.complete?.(digits)) {
+        finish('complete');
+      } else {
+        arm(interDigitTimeout);
+      }
+    };
+    const onClose = () => finish('hangup');
+
+    session.on('dtmf', onDtmf);
+    session.on('close', onClose);
+    arm(firstDigitTimeout);
+  });
+}
+
+export interface MenuPrompt {
+  contentType: string;
+  sampleRate: number;
+  payload: Buffer | Uint8Array | ArrayBuffer;
+}
+
+export type MenuRoute<TData extends object = Record<string, any>> = (
+  digits: string,
+  session: PlivoStreamSession<TData, any>,
+) => unknown;
+
+export interface MenuOptions<TData extends object = Record<string, any>> {
+  /** Prompt played on each attempt, or a function of the attempt number (starting at 1) */
+  prompt?: MenuPrompt | ((attempt: number) => MenuPrompt | undefined);
+  /** Handlers keyed by the digits that select them */
+  routes: Record<string, MenuRoute<TData>>;
+  /** Played after invalid input or a timeout, before the next attempt */
+  invalidPrompt?: MenuPrompt;
+  /** Extra attempts after invalid input or a timeout (default: 2) */
+  retries?: number;
+  /** Let the first digit cut the prompt off with `clearAudio` (default: true) */
+  bargeIn?: boolean;
+  /** Called once every attempt has failed */
+  onFailure?: (session: PlivoStreamSession<TData, any>) => unknown;
+  /**
+   * Digit collection settings. `maxDigits` defaults to the longest route key, and collection stops
+   * early once no longer route key starts with the digits entered.
+   */
+  collect?: CollectDigitsOptions;
+}
+
+export interface MenuResult {
+  /** Selected route key, or undefined if every attempt failed or the caller hung up */
+  digits?: string;
+  /** Number of attempts made */
+  attempts: number;
+  /** Whether the caller hung up during the menu */
+  hangup: boolean;
+}
+
+/**
+ * Run a declarative IVR menu: play the prompt, collect digits, route to the matching handler
+ * (awaiting it) and retry on invalid input or silence.
+ */
+export async function runMenu<TData extends object>(
+  session: PlivoStreamSession<TData, any>,
+  options: MenuOptions<TData>,
+): Promise<MenuResult> {
+  const retries = options.retries ?? 2;
+  const bargeIn = options.bargeIn ?? true;
+  const keys = Object.keys(options.routes);
+  const maxDigits = options.collect?.maxDigits ?? Math.max(1, ...keys.map((key) => key.length));
+  const firstDigitTimeout = options.collect?.firstDigitTimeout ?? 5000;
+  const complete = (digits: string) => !keys.some((key) => key.length > digits.length && key.startsWith(digits));
+
+  for (let attempt = 1; attempt <= retries + 1; attempt++) {
+    const prompt = typeof options.prompt === 'function' ? options.prompt(attempt) : options.prompt;
+    if (prompt) {
+      session.playAudio(prompt.contentType, prompt.sampleRate, prompt.payload);
+    }
+
+    let result: CollectedDigits;
+    if (bargeIn) {
+      const onFirstDigit = () => {
+        session.off('dtmf', onFirstDigit);
+        if (session.isPlayingAudio) {
+          session.clearAudio().catch(() => {});
+        }
+      };
+      session.on('dtmf', onFirstDigit);
+      // The first-digit timeout starts once the prompt has played
+      result = await collectDigits(session, {
+        ...options.collect,
+        maxDigits,
+        complete,
+        firstDigitTimeout: firstDigitTimeout + session.outboundRemainingMs,
+      });
+      session.off('dtmf', onFirstDigit);
+    } else {
+      if (session.isPlayingAudio) {
+        try {
+          await session.checkpoint(`menu-prompt-${attempt}`);
+        } catch {
+          if (!session.isActive) return { attempts: attempt, hangup: true };
+        }
+      }
+      result = await collectDigits(session, { ...options.collect, maxDigits, complete });
+    }
+
+    if (result.reason === 'hangup') {
+      return { attempts: attempt, hangup: true };
+    }
+    const route = result.valid ? options.routes[result.digits] : undefined;
+    if (route) {
+      await route(result.digits, session);
+      return { digits: result.digits, attempts: attempt, hangup: false };
+    }
+    if (options.invalidPrompt && attempt <= retries) {
+      const { contentType, sampleRate, payload } = options.invalidPrompt;
+      session.playAudio(contentType, sampleRate, payload);
+    }
+  }
+
+  await options.onFailure?.(session);
+  return { attempts: retries + 1, hangup: false };
+}
@@ -0,0 +1,250 @@
+import type { MediaEvent, MediaFormat } from './types.js';
+import { MediaFrame } from './types.js';
+import { silence } from './audio.js';
+
+export interface JitterBufferOptions {
+  /** Maximum number of out-of-order frames held per track while waiting for a missing one (default: 5) */
+  depth?: number;
+  /** Maximum time to wait for a missing frame before skipping it, in milliseconds (default: 100) */
+  maxDelayMs?: number;
+  /** Deliver silence frames in the stream's encoding in place of lost frames (default: false) */
+  fillGaps?: boolean;
+  /**
+   * Largest jump in chunk numbers, in frames, treated as loss (default: 50). A bigger jump, forwards or back,
+   * is a discontinuity such as a bogus or wrapped `media.chunk`: it is counted once, never filled, and
+   * ordering restarts from the new chunk number.
+   */
+  maxGap?: number;
+}
+
+export interface MediaStats {
+  /** Frames received from Plivo */
+  received: number;
+  /** Frames delivered to handlers, including filler frames */
+  delivered: number;
+  /** Frames that never arrived in time */
+  lost: number;
+  /** Frames that arrived after they had been given up as lost (dropped) */
+  late: number;
+  /** Frames received more than once (dropped) */
+  duplicated: number;
+  /** Frames that arrived after a frame with a higher chunk number */
+  reordered: number;
+  /** Silence frames synthesised for lost frames */
+  filled: number;
+  /** Jumps in chunk numbers larger than `maxGap` */
+  discontinuities: number;
+}
+
+interface TrackState {
+  nextChunk: number;
+  highestChunk: number;
+  pending: Map<number, MediaEvent>;
+  recent: Set<number>;
+  last?: MediaEvent;
+}
+
+/** Number of recently delivered chunk numbers remembered per track to tell duplicates from late frames */
+const RECENT_WINDOW = 64;
+
+/**
+ * Per-stream reorder buffer for inbound media.
+ *
+ * Frames are released in `media.chunk` order per track. A missing frame is waited for
+ * until `depth` later frames are held or `maxDelayMs` elapses, then counted as lost and
+ * optionally replaced with silence. Duplicates and frames arriving after their slot was
+ * skipped are dropped.
+ */
+export class JitterBuffer {
+  public readonly depth: number;
+  public readonly maxDelayMs: number;
+  public readonly fillGaps: boolean;
+  public readonly maxGap: number;
+
+  private tracks = new Map<string, TrackState>();
+  private counters: MediaStats = {
+    received: 0,
+    delivered: 0,
+    lost: 0,
+    late: 0,
+    duplicated: 0,
+    reordered: 0,
+    filled: 0,
+    discontinuities: 0,
+  };
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(
+    private readonly deliver: (event: MediaEvent) => void,
+    private readonly getMediaFormat: () => MediaFormat | undefined,
+    options: JitterBufferOptions = {},
+  ) {
+    this.depth = options.depth ?? 5;
+    this.maxDelayMs = options.maxDelayMs ?? 100;
+    this.fillGaps = options.fillGaps ?? false;
+    this.maxGap = options.maxGap ?? 50;
+  }
+
+  /**
+   * Snapshot of the buffer's counters
+   */
+  public get stats(): MediaStats {
+    return { ...this.counters };
+  }
+
+  /**
+   * Add a received frame, delivering every frame that is now in order
+   */
+  public push(event: MediaEvent): void {
+    this.counters.received++;
+    const chunk = event.media.chunk;
+    let track = this.tracks.get(event.media.track);
+    if (!track) {
+      track = { nextChunk: chunk, highestChunk: chunk, pending: new Map(), recent: new Set() };
+      this.tracks.set(event.media.track, track);
+    }
+
+    if (track.nextChunk - chunk > this.maxGap) {
+      // Too far behind to be a late frame: numbering restarted, so deliver what is held and follow it
+      this.counters.discontinuities++;
+      while (track.pending.size > 0) {
+        this.skipGap(track);
+      }
+      track.nextChunk = chunk;
+      track.highestChunk = chunk;
+      track.recent.clear();
+    } else if (chunk < track.nextChunk) {
+      if (track.recent.has(chunk)) {
+        this.counters.duplicated++;
+      } else {
+        this.counters.late++;
+      }
+      return;
+    }
+    if (track.pending.has(chunk)) {
+      this.counters.duplicated++;
+      return;
+    }
+
+    if (chunk < track.highestChunk) {
+      this.counters.reordered++;
+    }
+    track.highestChunk = Math.max(track.highestChunk, chunk);
+    track.pending.set(chunk, event);
+
+    this.drain(track);
+    while (track.pending.size > this.depth) {
+      this.skipGap(track);
+    }
+    this.scheduleTimeout();
+  }
+
+  /**
+   * Deliver everything still held, skipping over gaps
+   */
+  public flush(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    for (const track of this.tracks.values()) {
+      while (track.pending.size > 0) {
+        this.skipGap(track);
+      }
+    }
+  }
+
+  private drain(track: TrackState) {
+    let event = track.pending.get(track.nextChunk);
+    while (event) {
+      track.pending.delete(track.nextChunk);
+      this.release(track, event);
+      event = track.pending.get(track.nextChunk);
+    }
+  }
+
+  /**
+   * Give up on the frames missing before the oldest held frame
+   */
+  private skipGap(track: TrackState) {
+    // At most `depth + 1` frames are held
+    let oldest = Infinity;
+    for (const chunk of track.pending.keys()) {
+      if (chunk < oldest) oldest = chunk;
+    }
+    if (oldest - track.nextChunk > this.maxGap) {
+      this.counters.discontinuities++;
+      track.nextChunk = oldest;
+      this.drain(track);
+      return;
+    }
+    for (let chunk = track.nextChunk; chunk < oldest; chunk++) {
+      this.counters.lost++;
+      const filler = this.fillGaps ? this.createFiller(track, chunk) : undefined;
+      if (filler) {
+        this.counters.filled++;
+        this.release(track, filler);
+      }
+    }
+    track.nextChunk = oldest;
+    this.drain(track);
+  }
+
+  private release(track: TrackState, event: MediaEvent) {
+    track.nextChunk = event.media.chunk + 1;
+    if (!event.synthetic) {
+      track.recent.add(event.media.chunk);
+      if (track.recent.size > RECENT_WINDOW) {
+        track.recent.delete(track.recent.values().next().value!);
+      }
+      track.last = event;
+    }
+    this.counters.delivered++;
+    this.deliver(event);
+  }
+
+  private createFiller(track: TrackState, chunk: number): MediaEvent | undefined {
+    const template = track.last;
+    const mediaFormat = this.getMediaFormat();
+    if (!template || !mediaFormat) return undefined;
+
+    const payload = silence(mediaFormat.encoding, template.getRawMedia().length);
+    // Built from an already validated frame, so it need not be parsed again
+    const event = new MediaFrame({
+      sequenceNumber: template.sequenceNumber,
+      streamId: template.streamId,
+      event: 'media' as const,
+      extra_headers: template.extra_headers,
+      media: {
+        track: template.media.track,
+        timestamp: template.media.timestamp,
+        chunk,
+        payload: payload.toString('base64'),
+      },
+    });
+    event.mediaFormat = mediaFormat;
+    event.synthetic = true;
+    return event;
+  }
+
+  private scheduleTimeout() {
+    const waiting = [...this.tracks.values()].some((track) => track.pending.size > 0);
+    if (!waiting) {
+      if (this.timer) {
+        clearTimeout(this.timer);
+        this.timer = undefined;
+      }
+      return;
+    }
+    if (this.timer) return;
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      for (const track of this.tracks.values()) {
+        if (track.pending.size > 0) {
+          this.skipGap(track);
+        }
+      }
+      this.scheduleTimeout();
+    }, this.maxDelayMs);
+  }
+}
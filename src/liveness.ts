@@ -0,0 +1,138 @@
+import type { PlivoStreamSession } from './session.js';
+
+export interface LivenessOptions {
+  /** Send a WebSocket ping this often and terminate the socket if the previous one got no pong (default: disabled) */
+  pingIntervalMs?: number;
+  /** Close the connection if no start event arrives within this many milliseconds (default: disabled) */
+  startTimeoutMs?: number;
+  /** Emit `mediaTimeout` after this many milliseconds without inbound media once started (default: disabled) */
+  mediaTimeoutMs?: number;
+  /** Close the connection on a media timeout (default: true) */
+  closeOnMediaTimeout?: boolean;
+  /** Close the connection this many milliseconds after the start event (default: no limit) */
+  maxDurationMs?: number;
+}
+
+export interface MediaTimeoutEvent {
+  /** Milliseconds since the last media event, or since the start event if none arrived */
+  idleMs: number;
+  /** Time of the last media event (ms since epoch) */
+  lastMediaAt?: number;
+  /** Whether the connection is being closed because of the timeout */
+  closing: boolean;
+}
+
+/**
+ * Detects dead or stalled connections: unanswered pings, a missing start event, inbound media
+ * stopping and calls exceeding a maximum duration. Connections it closes report the matching
+ * `CloseReason`.
+ */
+export class LivenessMonitor {
+  private pingTimer?: ReturnType<typeof setInterval>;
+  private startTimer?: ReturnType<typeof setTimeout>;
+  private mediaTimer?: ReturnType<typeof setTimeout>;
+  private durationTimer?: ReturnType<typeof setTimeout>;
+  private awaitingPong = false;
+  private lastActivityAt = Date.now();
+  private lastMediaAt?: number;
+
+  private readonly onPong = () => {
+    this.awaitingPong = false;
+  };
+  private readonly onStart = () => this.handleStart();
+  private readonly onMedia = () => this.handleMedia();
+  private readonly onClose = () => this.dispose();
+
+  constructor(
+    private readonly session: PlivoStreamSession<any, any>,
+    private readonly options: LivenessOptions = {},
+    private readonly onError: (error: Error) => void = (error) => session.emit('error', error),
+  ) {
+    const { pingIntervalMs, startTimeoutMs } = options;
+    if (pingIntervalMs) {
+      session.ws.on('pong', this.onPong);
+      this.pingTimer = setInterval(() => this.ping(), pingIntervalMs);
+    }
+    if (startTimeoutMs && !session.isStarted) {
+      this.startTimer = setTimeout(
+        () => this.session.closeFor('startTimeout', 1008, 'No start event received'),
+        startTimeoutMs,
+      );
+    }
+    session.on('start', this.onStart);
+    session.on('media', this.onMedia);
+    session.on('close', this.onClose);
+  }
+
+  /**
+   * Stop all timers and listeners
+   */
+  public dispose(): void {
+    clearInterval(this.pingTimer);
+    clearTimeout(this.startTimer);
+    clearTimeout(this.mediaTimer);
+    clearTimeout(this.durationTimer);
+    this.session.ws.off('pong', this.onPong);
+    this.session.off('start', this.onStart);
+    this.session.off('media', this.onMedia);
+    this.session.off('close', this.onClose);
+  }
+
+  private ping() {
+    // Also ends sockets stuck in the closing handshake with an unresponsive peer
+    if (this.awaitingPong) {
+      this.session.closeFor('pingTimeout');
+      return;
+    }
+    if (!this.session.isActive) return;
+    this.awaitingPong = true;
+    this.session.ws.ping();
+  }
+
+  private handleStart() {
+    clearTimeout(this.startTimer);
+    this.lastActivityAt = Date.now();
+    this.armMediaTimer();
+    if (this.options.maxDurationMs) {
+      this.durationTimer = setTimeout(
+        () => this.session.closeFor('maxDuration', 1000, 'Maximum call duration reached'),
+        this.options.maxDurationMs,
+      );
+    }
+  }
+
+  private handleMedia() {
+    this.lastMediaAt = Date.now();
+    this.lastActivityAt = this.lastMediaAt;
+    this.armMediaTimer();
+  }
+
+  private armMediaTimer() {
+    const { mediaTimeoutMs } = this.options;
+    if (!mediaTimeoutMs) return;
+    clearTimeout(this.mediaTimer);
+    this.mediaTimer = setTimeout(() => this.handleMediaTimeout(), mediaTimeoutMs);
+  }
+
+  private handleMediaTimeout() {
+    if (!this.session.isActive) return;
+    const closing = this.options.closeOnMediaTimeout ?? true;
+    try {
+      this.session.emit('mediaTimeout', {
+        idleMs: Date.now() - this.lastActivityAt,
+        lastMediaAt: this.lastMediaAt,
+        closing,
+      });
+    } catch (error) {
+      // A throwing handler must not escape the timer or keep the stalled connection open
+      try {
+        this.onError(error instanceof Error ? error : new Error(String(error)));
+      } catch {
+        // Ignore errors in error handlers
+      }
+    }
+    if (closing) {
+      this.session.closeFor('mediaTimeout', 1000, 'Media inactivity timeout');
+    }
+  }
+}
@@ -0,0 +1,96 @@
+export type LogLevel = 'trace' | 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFn = (fields: Record<string, unknown>, message?: string) => void;
+
+/**
+ * Structured logger accepted by the SDK. Matches pino's API; any logger with the same
+ * level methods (and optionally `child`) works, e.g. a winston logger behind a small adapter.
+ */
+export interface Logger {
+  trace?: LogFn;
+  debug: LogFn;
+  info: LogFn;
+  warn: LogFn;
+  error: LogFn;
+  /** Create a logger that adds `bindings` to every entry */
+  child?(bindings: Record<string, unknown>): Logger;
+}
+
+/**
+ * Logger handed out by the SDK: every level is present and `child` always works
+ */
+export interface BoundLogger extends Logger {
+  trace: LogFn;
+  child(bindings: Record<string, unknown>): BoundLogger;
+}
+
+const REDACTED = '[REDACTED]';
+const SECRET_KEY = /token|signature|nonce|authorization|cookie|password|secret|payload/i;
+const MAX_DEPTH = 5;
+
+/**
+ * Copy `value`, replacing secrets (auth tokens, signatures, media payloads, ...) by key name
+ */
+export function redact(value: unknown, depth = 0): unknown {
+  if (value === null || typeof value !== 'object' || value instanceof Error) {
+    return value;
+  }
+  if (Buffer.isBuffer(value) || ArrayBuffer.isView(value)) {
+    return `[${value.byteLength} bytes]`;
+  }
+  if (depth >= MAX_DEPTH) {
+    return '[Object]';
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1));
+  }
+  const copy: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    copy[key] = SECRET_KEY.test(key) ? REDACTED : redact(item, depth + 1);
+  }
+  return copy;
+}
+
+/**
+ * Redacting wrapper around a user-supplied logger. Without one, nothing is logged.
+ */
+class RedactingLogger implements BoundLogger {
+  public readonly trace: LogFn;
+  public readonly debug: LogFn;
+  public readonly info: LogFn;
+  public readonly warn: LogFn;
+  public readonly error: LogFn;
+
+  constructor(
+    private readonly target?: Logger,
+    private readonly bindings: Record<string, unknown> = {},
+  ) {
+    this.trace = this.method('trace');
+    this.debug = this.method('debug');
+    this.info = this.method('info');
+    this.warn = this.method('warn');
+    this.error = this.method('error');
+  }
+
+  public child(bindings: Record<string, unknown>): BoundLogger {
+    if (this.target?.child) {
+      return new RedactingLogger(this.target.child(redact(bindings) as Record<string, unknown>));
+    }
+    return new RedactingLogger(this.target, { ...this.bindings, ...bindings });
+  }
+
+  private method(level: LogLevel): LogFn {
+    const fn = this.target?.[level] ?? (level === 'trace' ? this.target?.debug : undefined);
+    if (!fn) return () => {};
+    return (fields, message) => {
+      fn.call(this.target, redact({ ...this.bindings, ...fields }) as Record<string, unknown>, message);
+    };
+  }
+}
+
+/**
+ * Wrap a logger so secrets are redacted from every entry; returns a silent logger if none is given
+ */
+export function createLogger(target?: Logger): BoundLogger {
+  return target instanceof RedactingLogger ? target : new RedactingLogger(target);
+}
@@ -0,0 +1,286 @@
+export interface HistogramSnapshot {
+  /** Upper bounds in milliseconds; each count is cumulative, as in Prometheus */
+  buckets: { le: number; count: number }[];
+  count: number;
+  sumMs: number;
+}
+
+/**
+ * Cumulative histogram of millisecond durations
+ */
+export class Histogram {
+  private readonly counts: number[];
+  private count = 0;
+  private sumMs = 0;
+
+  constructor(public readonly bounds: readonly number[]) {
+    this.counts = bounds.map(() => 0);
+  }
+
+  public observe(ms: number): void {
+    this.count++;
+    this.sumMs += ms;
+    for (let i = 0; i < this.bounds.length; i++) {
+      if (ms <= this.bounds[i]!) this.counts[i]!++;
+    }
+  }
+
+  public snapshot(): HistogramSnapshot {
+    return {
+      buckets: this.bounds.map((le, i) => ({ le, count: this.counts[i]! })),
+      count: this.count,
+      sumMs: this.sumMs,
+    };
+  }
+}
+
+const CHECKPOINT_RTT_BUCKETS = [50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000, 60000];
+const CLEAR_AUDIO_BUCKETS = [10, 25, 50, 100, 250, 500, 1000, 2500, 5000];
+const CALL_DURATION_BUCKETS = [10, 30, 60, 120, 300, 600, 1800, 3600, 7200].map((seconds) => seconds * 1000);
+
+export interface MediaCounters {
+  frames: number;
+  bytes: number;
+}
+
+export interface SessionMetricsSnapshot {
+  inbound: MediaCounters;
+  outbound: MediaCounters;
+  /** Inbound messages that failed to parse or validate, by event type */
+  errors: Record<string, number>;
+  /** Checkpoint sent to `playedStream` received */
+  checkpointRttMs: HistogramSnapshot;
+  /** `clearAudio` sent to `clearedAudio` received */
+  clearAudioLatencyMs: HistogramSnapshot;
+  /** Time since the start event, or the final call duration once closed */
+  durationMs?: number;
+}
+
+export interface ServerMetricsSnapshot extends Omit<SessionMetricsSnapshot, 'durationMs'> {
+  /** Open connections */
+  activeStreams: number;
+  /** Open connections whose start event has arrived */
+  startedStreams: number;
+  /** Connections accepted since the server was created */
+  connectionsTotal: number;
+  /** Upgrades rejected by signature validation, by reason */
+  rejectedConnections: Record<string, number>;
+  /** Start event to close, for calls that started */
+  callDurationMs: HistogramSnapshot;
+}
+
+/**
+ * Server-wide counters, fed by every session's `SessionMetrics`
+ */
+export class ServerMetrics {
+  private activeStreams = 0;
+  private startedStreams = 0;
+  private connectionsTotal = 0;
+  private readonly rejected: Record<string, number> = {};
+  private readonly inbound: MediaCounters = { frames: 0, bytes: 0 };
+  private readonly outbound: MediaCounters = { frames: 0, bytes: 0 };
+  private readonly errors: Record<string, number> = {};
+  private readonly checkpointRtt = new Histogram(CHECKPOINT_RTT_BUCKETS);
+  private readonly clearAudioLatency = new Histogram(CLEAR_AUDIO_BUCKETS);
+  private readonly callDuration = new Histogram(CALL_DURATION_BUCKETS);
+
+  /** @internal */
+  public recordConnection(): void {
+    this.connectionsTotal++;
+    this.activeStreams++;
+  }
+
+  /** @internal */
+  public recordRejected(reason: string): void {
+    this.rejected[reason] = (this.rejected[reason] ?? 0) + 1;
+  }
+
+  /** @internal */
+  public recordStart(): void {
+    this.startedStreams++;
+  }
+
+  /** @internal */
+  public recordClose(durationMs?: number): void {
+    this.activeStreams--;
+    if (durationMs !== undefined) {
+      this.startedStreams--;
+      this.callDuration.observe(durationMs);
+    }
+  }
+
+  /** @internal */
+  public recordMedia(direction: 'inbound' | 'outbound', bytes: number): void {
+    const counters = direction === 'inbound' ? this.inbound : this.outbound;
+    counters.frames++;
+    counters.bytes += bytes;
+  }
+
+  /** @internal */
+  public recordError(eventType: string): void {
+    this.errors[eventType] = (this.errors[eventType] ?? 0) + 1;
+  }
+
+  /** @internal */
+  public recordCheckpointRtt(ms: number): void {
+    this.checkpointRtt.observe(ms);
+  }
+
+  /** @internal */
+  public recordClearAudioLatency(ms: number): void {
+    this.clearAudioLatency.observe(ms);
+  }
+
+  public snapshot(): ServerMetricsSnapshot {
+    return {
+      activeStreams: this.activeStreams,
+      startedStreams: this.startedStreams,
+      connectionsTotal: this.connectionsTotal,
+      rejectedConnections: { ...this.rejected },
+      inbound: { ...this.inbound },
+      outbound: { ...this.outbound },
+      errors: { ...this.errors },
+      checkpointRttMs: this.checkpointRtt.snapshot(),
+      clearAudioLatencyMs: this.clearAudioLatency.snapshot(),
+      callDurationMs: this.callDuration.snapshot(),
+    };
+  }
+
+  /**
+   * Render the current metrics in the Prometheus text exposition format
+   */
+  public toPrometheus(prefix?: string): string {
+    return renderPrometheus(this.snapshot(), prefix);
+  }
+}
+
+/**
+ * Counters for a single stream; updates are also applied to the server's metrics
+ */
+export class SessionMetrics {
+  private readonly inbound: MediaCounters = { frames: 0, bytes: 0 };
+  private readonly outbound: MediaCounters = { frames: 0, bytes: 0 };
+  private readonly errors: Record<string, number> = {};
+  private readonly checkpointRtt = new Histogram(CHECKPOINT_RTT_BUCKETS);
+  private readonly clearAudioLatency = new Histogram(CLEAR_AUDIO_BUCKETS);
+  private startedAt?: number;
+  private closedAt?: number;
+
+  constructor(private readonly server?: ServerMetrics) {}
+
+  /** @internal */
+  public recordStart(): void {
+    if (this.startedAt !== undefined) return;
+    this.startedAt = Date.now();
+    this.server?.recordStart();
+  }
+
+  /** @internal */
+  public recordClose(): void {
+    if (this.closedAt !== undefined) return;
+    this.closedAt = Date.now();
+    this.server?.recordClose(this.durationMs);
+  }
+
+  /** @internal */
+  public recordMedia(direction: 'inbound' | 'outbound', bytes: number): void {
+    const counters = direction === 'inbound' ? this.inbound : this.outbound;
+    counters.frames++;
+    counters.bytes += bytes;
+    this.server?.recordMedia(direction, bytes);
+  }
+
+  /** @internal */
+  public recordError(eventType: string): void {
+    this.errors[eventType] = (this.errors[eventType] ?? 0) + 1;
+    this.server?.recordError(eventType);
+  }
+
+  /** @internal */
+  public recordCheckpointRtt(ms: number): void {
+    this.checkpointRtt.observe(ms);
+    this.server?.recordCheckpointRtt(ms);
+  }
+
+  /** @internal */
+  public recordClearAudioLatency(ms: number): void {
+    this.clearAudioLatency.observe(ms);
+    this.server?.recordClearAudioLatency(ms);
+  }
+
+  /**
+   * Milliseconds since the start event, or the call's duration once closed
+   */
+  public get durationMs(): number | undefined {
+    if (this.startedAt === undefined) return undefined;
+    return (this.closedAt ?? Date.now()) - this.startedAt;
+  }
+
+  public snapshot(): SessionMetricsSnapshot {
+    return {
+      inbound: { ...this.inbound },
+      outbound: { ...this.outbound },
+      errors: { ...this.errors },
+      checkpointRttMs: this.checkpointRtt.snapshot(),
+      clearAudioLatencyMs: this.clearAudioLatency.snapshot(),
+      durationMs: this.durationMs,
+    };
+  }
+}
+
+/**
+ * Render a metrics snapshot in the Prometheus text exposition format (durations in seconds)
+ */
+export function renderPrometheus(snapshot: ServerMetricsSnapshot, prefix = 'plivo_stream_'): string {
+  const lines: string[] = [];
+  const metric = (name: string, type: string, help: string, samples: [labels: string, value: number][]) => {
+    lines.push(`# HELP ${prefix}${name} ${help}`, `# TYPE ${prefix}${name} ${type}`);
+    for (const [labels, value] of samples) {
+      lines.push(`${prefix}${name}${labels} ${value}`);
+    }
+  };
+  const labelled = (label: string, values: Record<string, number>): [string, number][] =>
+    Object.entries(values).map(([key, value]) => [`{${label}="${escapeLabel(key)}"}`, value]);
+  const histogram = (name: string, help: string, { buckets, count, sumMs }: HistogramSnapshot) => {
+    lines.push(`# HELP ${prefix}${name} ${help}`, `# TYPE ${prefix}${name} histogram`);
+    for (const { le, count: bucketCount } of buckets) {
+      lines.push(`${prefix}${name}_bucket{le="${le / 1000}"} ${bucketCount}`);
+    }
+    lines.push(`${prefix}${name}_bucket{le="+Inf"} ${count}`);
+    lines.push(`${prefix}${name}_sum ${sumMs / 1000}`, `${prefix}${name}_count ${count}`);
+  };
+
+  metric('active_streams', 'gauge', 'Open stream connections', [['', snapshot.activeStreams]]);
+  metric('started_streams', 'gauge', 'Open stream connections that received a start event', [
+    ['', snapshot.startedStreams],
+  ]);
+  metric('connections_total', 'counter', 'Stream connections accepted', [['', snapshot.connectionsTotal]]);
+  metric(
+    'rejected_connections_total',
+    'counter',
+    'Upgrades rejected by signature validation',
+    labelled('reason', snapshot.rejectedConnections),
+  );
+  metric('media_frames_total', 'counter', 'Media frames received and sent', [
+    ['{direction="inbound"}', snapshot.inbound.frames],
+    ['{direction="outbound"}', snapshot.outbound.frames],
+  ]);
+  metric('media_bytes_total', 'counter', 'Decoded media bytes received and sent', [
+    ['{direction="inbound"}', snapshot.inbound.bytes],
+    ['{direction="outbound"}', snapshot.outbound.bytes],
+  ]);
+  metric(
+    'event_errors_total',
+    'counter',
+    'Inbound messages that failed to parse or validate',
+    labelled('event', snapshot.errors),
+  );
+  histogram('checkpoint_rtt_seconds', 'Checkpoint sent to playedStream received', snapshot.checkpointRttMs);
+  histogram('clear_audio_latency_seconds', 'clearAudio sent to clearedAudio received', snapshot.clearAudioLatencyMs);
+  histogram('call_duration_seconds', 'Start event to connection close', snapshot.callDurationMs);
+  return `${lines.join('\n')}\n`;
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
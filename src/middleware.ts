@@ -0,0 +1,99 @@
+import type { ExtraHeaders } from './headers.js';
+import type { PlivoStreamSession } from './session.js';
+import type { InboundEvent, OutboundEvent } from './types.js';
+
+export type MiddlewareContext<TData extends object = Record<string, any>, THeaders extends object = ExtraHeaders> =
+  | {
+      direction: 'inbound';
+      /** Parsed event; replace it to change what the handlers receive */
+      event: InboundEvent<THeaders>;
+      session: PlivoStreamSession<TData, THeaders>;
+    }
+  | {
+      direction: 'outbound';
+      /** Event about to be sent; replace it to change what goes on the wire */
+      event: OutboundEvent;
+      session: PlivoStreamSession<TData, THeaders>;
+    };
+
+/**
+ * Sees every inbound and outbound event of a session. Call `next()` to pass the event on (awaiting it
+ * resolves once the rest of the chain has run); return without calling it to drop the event.
+ */
+export type Middleware<TData extends object = Record<string, any>, THeaders extends object = ExtraHeaders> = (
+  context: MiddlewareContext<TData, THeaders>,
+  next: () => Promise<void>,
+) => unknown;
+
+/**
+ * Runs a session's events through the middleware chain. Events in each direction are processed
+ * one at a time, in the order they arrived or were sent.
+ * @internal
+ */
+export class MiddlewareRunner<TData extends object = Record<string, any>, THeaders extends object = ExtraHeaders> {
+  private inboundTail: Promise<void> = Promise.resolve();
+  private outboundTail: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly middleware: Middleware<TData, THeaders>[],
+    private readonly session: PlivoStreamSession<TData, THeaders>,
+    private readonly onError: (error: Error) => void,
+  ) {}
+
+  public inbound(event: InboundEvent<THeaders>, deliver: (event: InboundEvent<THeaders>) => void): void {
+    this.inboundTail = this.inboundTail
+      .then(() =>
+        this.run({ direction: 'inbound', event, session: this.session }, (context) =>
+          deliver(context.event as InboundEvent<THeaders>),
+        ),
+      )
+      // A failure must not stop the events queued behind it
+      .catch(() => {});
+  }
+
+  public outbound(event: OutboundEvent, deliver: (event: OutboundEvent) => void): void {
+    this.outboundTail = this.outboundTail
+      .then(() =>
+        this.run({ direction: 'outbound', event, session: this.session }, (context) =>
+          deliver(context.event as OutboundEvent),
+        ),
+      )
+      .catch(() => {});
+  }
+
+  /**
+   * Resolves once every inbound event received so far has been through the chain
+   */
+  public inboundSettled(): Promise<void> {
+    return this.inboundTail;
+  }
+
+  private async run(
+    context: MiddlewareContext<TData, THeaders>,
+    deliver: (context: MiddlewareContext<TData, THeaders>) => void,
+  ): Promise<void> {
+    let index = -1;
+    const dispatch = async (i: number): Promise<void> => {
+      if (i <= index) {
+        throw new Error('next() called multiple times');
+      }
+      index = i;
+      const middleware = this.middleware[i];
+      if (middleware) {
+        await middleware(context, () => dispatch(i + 1));
+      } else {
+        deliver(context);
+      }
+    };
+
+    try {
+      await dispatch(0);
+    } catch (error) {
+      try {
+        this.onError(error instanceof Error ? error : new Error(String(error)));
+      } catch {
+        // Ignore errors in error handlers
+      }
+    }
+  }
+}
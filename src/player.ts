@@ -0,0 +1,241 @@
+import type { PlivoStreamSession } from './session.js';
+import { bytesPerSample, parseEncoding, pcm16ToMedia } from './audio.js';
+import { AudioFormatError } from './errors.js';
+
+export interface AudioPlayerOptions {
+  /** Duration of each outbound `playAudio` frame in milliseconds (default: 20) */
+  frameDurationMs?: number;
+  /** How far ahead of real time audio may be sent, in milliseconds (default: 200) */
+  leadMs?: number;
+  /** Pause sending while `ws.bufferedAmount` exceeds this many bytes (default: 65536) */
+  maxBufferedBytes?: number;
+}
+
+interface QueuedAudio {
+  kind: 'audio';
+  contentType: string;
+  sampleRate: number;
+  bytesPerSecond: number;
+  data: Buffer;
+  offset: number;
+  resolve: (played: boolean) => void;
+}
+
+interface QueuedMarker {
+  kind: 'marker';
+  run: () => void;
+  resolve: (reached: boolean) => void;
+}
+
+type QueueItem = QueuedAudio | QueuedMarker;
+
+/**
+ * Paced outbound audio for a single session.
+ *
+ * Enqueued audio is split into fixed-duration frames which are sent as individual
+ * `playAudio` events, no more than `leadMs` ahead of real time and only while the
+ * socket's send buffer is below `maxBufferedBytes`. Consecutive chunks with the same
+ * format are coalesced so frames stay full-sized across chunk boundaries.
+ */
+export class AudioPlayer {
+  private readonly frameDurationMs: number;
+  private readonly leadMs: number;
+  private readonly maxBufferedBytes: number;
+
+  private queue: QueueItem[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+  private playhead = 0;
+
+  constructor(
+    private readonly session: PlivoStreamSession<any, any>,
+    options: AudioPlayerOptions = {},
+  ) {
+    this.frameDurationMs = options.frameDurationMs ?? 20;
+    this.leadMs = options.leadMs ?? 200;
+    this.maxBufferedBytes = options.maxBufferedBytes ?? 65536;
+  }
+
+  /**
+   * Whether audio or markers are queued and not yet sent
+   */
+  public get isPlaying(): boolean {
+    return this.queue.length > 0;
+  }
+
+  /**
+   * Milliseconds of audio queued in the player and not yet sent
+   */
+  public get queuedMs(): number {
+    let ms = 0;
+    for (const item of this.queue) {
+      if (item.kind === 'audio') {
+        ms += ((item.data.length - item.offset) / item.bytesPerSecond) * 1000;
+      }
+    }
+    return ms;
+  }
+
+  /**
+   * Estimated milliseconds of sent audio that have not finished playing yet
+   */
+  public get bufferedMs(): number {
+    return Math.max(0, this.playhead - Date.now());
+  }
+
+  /**
+   * Queue audio for paced playback.
+   * Resolves with `true` once all of it has been sent, or `false` if it was cleared first.
+   * @param contentType - Audio content type (e.g., 'audio/x-mulaw')
+   * @param sampleRate - Sample rate in Hz
+   * @param payload - Raw audio data as Buffer, Uint8Array, or ArrayBuffer
+   */
+  public enqueue(
+    contentType: string,
+    sampleRate: number,
+    payload: Buffer | Uint8Array | ArrayBuffer,
+  ): Promise<boolean> {
+    const encoding = parseEncoding(contentType);
+    if (sampleRate <= 0) {
+      throw new AudioFormatError(`Invalid sample rate: ${sampleRate}`);
+    }
+    const data = Buffer.isBuffer(payload) ? payload : Buffer.from(payload as Uint8Array);
+
+    return new Promise((resolve) => {
+      if (data.length === 0) {
+        resolve(true);
+        return;
+      }
+      this.queue.push({
+        kind: 'audio',
+        contentType,
+        sampleRate,
+        bytesPerSecond: bytesPerSample(encoding) * sampleRate,
+        data,
+        offset: 0,
+        resolve,
+      });
+      if (!this.timer) {
+        this.pump();
+      }
+    });
+  }
+
+  /**
+   * Queue PCM16 audio at any sample rate, transcoded to the stream's media format
+   */
+  public enqueuePcm16(pcm: Buffer, sampleRate: number): Promise<boolean> {
+    const mediaFormat = this.session.mediaFormat;
+    if (!mediaFormat) {
+      throw new AudioFormatError('Media format not available. Wait for the start event.');
+    }
+    return this.enqueue(mediaFormat.encoding, mediaFormat.sampleRate, pcm16ToMedia(pcm, sampleRate, mediaFormat));
+  }
+
+  /**
+   * Queue a callback to run once all audio queued before it has been sent.
+   * Resolves with `true` after it ran, or `false` if the queue was cleared first.
+   */
+  public enqueueMarker(run: () => void): Promise<boolean> {
+    return new Promise((resolve) => {
+      this.queue.push({ kind: 'marker', run, resolve });
+      if (!this.timer) {
+        this.pump();
+      }
+    });
+  }
+
+  /**
+   * Drop all queued audio immediately
+   */
+  public clear(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    const dropped = this.queue;
+    this.queue = [];
+    this.playhead = 0;
+    dropped.forEach((item) => item.resolve(false));
+  }
+
+  private schedule(delayMs: number) {
+    this.timer = setTimeout(
+      () => {
+        this.timer = undefined;
+        this.pump();
+      },
+      Math.max(1, delayMs),
+    );
+  }
+
+  private pump() {
+    while (this.queue.length > 0) {
+      if (!this.session.isActive) {
+        this.clear();
+        return;
+      }
+
+      // Markers run as soon as the audio before them has been sent
+      const head = this.queue[0]!;
+      if (head.kind === 'marker') {
+        this.queue.shift();
+        head.run();
+        head.resolve(true);
+        continue;
+      }
+
+      const now = Date.now();
+      if (this.playhead < now) {
+        this.playhead = now;
+      }
+      const ahead = this.playhead - now;
+      if (ahead >= this.leadMs) {
+        this.schedule(ahead - this.leadMs);
+        return;
+      }
+      if (this.session.ws.bufferedAmount > this.maxBufferedBytes) {
+        this.schedule(this.frameDurationMs);
+        return;
+      }
+
+      const frame = this.nextFrame(head);
+      this.session.playAudio(head.contentType, head.sampleRate, frame);
+      this.playhead += (frame.length / head.bytesPerSecond) * 1000;
+    }
+  }
+
+  /**
+   * Take up to one frame of audio from the head of the queue, continuing into
+   * following chunks of the same format
+   */
+  private nextFrame(head: QueuedAudio): Buffer {
+    const sampleBytes = head.bytesPerSecond / head.sampleRate;
+    const frameBytes = Math.max(
+      sampleBytes,
+      Math.floor((head.bytesPerSecond * this.frameDurationMs) / 1000 / sampleBytes) * sampleBytes,
+    );
+
+    const parts: Buffer[] = [];
+    let remaining = frameBytes;
+    while (remaining > 0) {
+      const item = this.queue[0];
+      if (
+        !item ||
+        item.kind !== 'audio' ||
+        item.contentType !== head.contentType ||
+        item.sampleRate !== head.sampleRate
+      ) {
+        break;
+      }
+      const take = Math.min(remaining, item.data.length - item.offset);
+      parts.push(item.data.subarray(item.offset, item.offset + take));
+      item.offset += take;
+      remaining -= take;
+      if (item.offset >= item.data.length) {
+        this.queue.shift();
+        item.resolve(true);
+      }
+    }
+    return parts.length === 1 ? parts[0]! : Buffer.concat(parts);
+  }
+}
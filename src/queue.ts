@@ -0,0 +1,372 @@
+import { randomUUID } from 'crypto';
+import type { PlivoStreamSession } from './session.js';
+import { TypedEmitter } from './emitter.js';
+import { bytesPerSample, parseEncoding, pcm16ToMedia } from './audio.js';
+import { AckCancelledError, AudioFormatError } from './errors.js';
+
+export type UtteranceState = 'queued' | 'playing' | 'played' | 'interrupted' | 'cancelled';
+
+export interface UtteranceOptions {
+  /** Identifier used in the bracketing checkpoint names (default: random UUID) */
+  id?: string;
+  /** Transcript of the audio, used to estimate what the caller heard when interrupted */
+  text?: string;
+}
+
+export type PlaybackQueueEventMap = {
+  /** An utterance changed state */
+  stateChange: [utterance: Utterance];
+};
+
+/**
+ * A unit of assistant speech tracked by a `PlaybackQueue`.
+ *
+ * Audio can be supplied up front or streamed with `write()` and finished with `end()`.
+ */
+export class Utterance {
+  public state: UtteranceState = 'queued';
+  /** When Plivo started playing this utterance (ms since epoch) */
+  public startedAt?: number;
+  /** When the utterance finished, was interrupted or was cancelled (ms since epoch) */
+  public endedAt?: number;
+  /** Estimated milliseconds of this utterance the caller heard */
+  public playedMs = 0;
+  /** Resolves once the utterance is played, interrupted or cancelled */
+  public readonly done: Promise<Utterance>;
+
+  /** @internal */
+  public chunks: Buffer[] = [];
+  /** @internal */
+  public ended = false;
+  /** @internal */
+  public fed = false;
+  /** @internal */
+  public generation = 0;
+
+  private bytes = 0;
+  private settle!: (utterance: Utterance) => void;
+
+  constructor(
+    private readonly queue: PlaybackQueue,
+    public readonly id: string,
+    public readonly contentType: string,
+    public readonly sampleRate: number,
+    public readonly text?: string,
+  ) {
+    this.done = new Promise((resolve) => {
+      this.settle = resolve;
+    });
+  }
+
+  /**
+   * Total duration of the audio written so far, in milliseconds
+   */
+  public get durationMs(): number {
+    const bytesPerSecond = bytesPerSample(parseEncoding(this.contentType)) * this.sampleRate;
+    return (this.bytes / bytesPerSecond) * 1000;
+  }
+
+  /**
+   * Whether the utterance is no longer queued or playing
+   */
+  public get isFinished(): boolean {
+    return this.state === 'played' || this.state === 'interrupted' || this.state === 'cancelled';
+  }
+
+  /**
+   * Character offset into `text` the caller is estimated to have heard,
+   * proportional to `playedMs` and rounded back to a word boundary
+   */
+  public get textOffset(): number | undefined {
+    if (this.text === undefined) return undefined;
+    if (this.state === 'played') return this.text.length;
+    const duration = this.durationMs;
+    if (duration <= 0 || this.playedMs <= 0) return 0;
+    const offset = Math.round(this.text.length * Math.min(1, this.playedMs / duration));
+    if (offset >= this.text.length) return this.text.length;
+    const boundary = this.text.lastIndexOf(' ', offset);
+    return boundary > 0 ? boundary : 0;
+  }
+
+  /**
+   * Estimated part of `text` the caller heard
+   */
+  public get heardText(): string | undefined {
+    const offset = this.textOffset;
+    return offset === undefined ? undefined : this.text!.slice(0, offset);
+  }
+
+  /**
+   * Append audio to an open utterance
+   */
+  public write(payload: Buffer | Uint8Array | ArrayBuffer): this {
+    if (this.ended) {
+      throw new Error(`Utterance ${this.id} has already ended`);
+    }
+    if (this.isFinished) {
+      return this;
+    }
+    const data = Buffer.isBuffer(payload) ? payload : Buffer.from(payload as Uint8Array);
+    this.chunks.push(data);
+    this.bytes += data.length;
+    this.queue.handleWrite(this, data);
+    return this;
+  }
+
+  /**
+   * Mark the utterance complete, optionally appending a final chunk of audio
+   */
+  public end(payload?: Buffer | Uint8Array | ArrayBuffer): this {
+    if (payload) {
+      this.write(payload);
+    }
+    if (!this.ended) {
+      this.ended = true;
+      this.queue.handleEnd(this);
+    }
+    return this;
+  }
+
+  /**
+   * Cancel this utterance. If its audio was already sent, playback is cleared.
+   */
+  public cancel(): Promise<void> {
+    return this.queue.cancel(this);
+  }
+
+  /** @internal */
+  public finish(state: 'played' | 'interrupted' | 'cancelled', playedMs: number): void {
+    if (this.isFinished) return;
+    this.state = state;
+    this.playedMs = Math.max(0, Math.min(this.durationMs, playedMs));
+    this.endedAt = Date.now();
+    this.chunks = [];
+    this.settle(this);
+  }
+}
+
+/**
+ * Ordered queue of utterances played through a session's `player`.
+ *
+ * Each utterance is bracketed by `<id>:start` and `<id>:end` checkpoints: the start
+ * acknowledgement marks it as playing, the end acknowledgement as played. When playback
+ * is cleared, the playing utterance is marked interrupted with an estimate of how much
+ * of it (and of its `text`) the caller heard.
+ */
+export class PlaybackQueue extends TypedEmitter<PlaybackQueueEventMap> {
+  private utterances: Utterance[] = [];
+  private ownClears = 0;
+
+  constructor(private readonly session: PlivoStreamSession<any, any>) {
+    super();
+    session.on('clearedAudio', () => {
+      if (this.ownClears > 0) {
+        this.ownClears--;
+        return;
+      }
+      // clearAudio was issued outside the queue: everything sent so far is gone
+      this.stopAll();
+    });
+    session.on('start', () => this.pump());
+    session.on('close', () => this.stopAll());
+  }
+
+  /**
+   * Utterance currently being played, if any
+   */
+  public get current(): Utterance | undefined {
+    return this.utterances.find((u) => u.state === 'playing');
+  }
+
+  /**
+   * Utterances that are queued or playing, in order
+   */
+  public get pending(): readonly Utterance[] {
+    return this.utterances;
+  }
+
+  /**
+   * Queue an utterance. Without `payload` the utterance stays open for `write()` until `end()`.
+   * @param contentType - Audio content type (e.g., 'audio/x-mulaw')
+   * @param sampleRate - Sample rate in Hz
+   * @param payload - Complete audio for the utterance
+   */
+  public enqueue(
+    contentType: string,
+    sampleRate: number,
+    payload?: Buffer | Uint8Array | ArrayBuffer,
+    options: UtteranceOptions = {},
+  ): Utterance {
+    parseEncoding(contentType);
+    const utterance = new Utterance(this, options.id ?? randomUUID(), contentType, sampleRate, options.text);
+    this.utterances.push(utterance);
+    this.emit('stateChange', utterance);
+    if (payload) {
+      utterance.end(payload);
+    } else {
+      this.pump();
+    }
+    return utterance;
+  }
+
+  /**
+   * Queue a complete PCM16 utterance at any sample rate, transcoded to the stream's media format
+   */
+  public enqueuePcm16(pcm: Buffer, sampleRate: number, options: UtteranceOptions = {}): Utterance {
+    const mediaFormat = this.session.mediaFormat;
+    if (!mediaFormat) {
+      throw new AudioFormatError('Media format not available. Wait for the start event.');
+    }
+    return this.enqueue(
+      mediaFormat.encoding,
+      mediaFormat.sampleRate,
+      pcm16ToMedia(pcm, sampleRate, mediaFormat),
+      options,
+    );
+  }
+
+  /**
+   * Cancel a single utterance. If its audio was already sent, playback is cleared with
+   * `clearAudio`, which also interrupts the utterance playing at that moment; later
+   * utterances are re-sent once the clear is acknowledged.
+   */
+  public async cancel(utterance: Utterance): Promise<void> {
+    if (utterance.isFinished || !this.utterances.includes(utterance)) return;
+
+    if (!utterance.fed) {
+      this.remove(utterance, 'cancelled');
+      this.pump();
+      return;
+    }
+
+    const playing = this.current;
+    for (const u of [...this.utterances]) {
+      if (u === utterance || u === playing) {
+        this.remove(u, u.state === 'playing' ? 'interrupted' : 'cancelled');
+      } else if (u.fed) {
+        u.fed = false;
+        u.generation++;
+      }
+    }
+    await this.clearPlayback();
+    this.pump();
+  }
+
+  /**
+   * Stop playback and cancel every queued utterance.
+   * Resolves with the utterances that were affected.
+   */
+  public async clear(): Promise<Utterance[]> {
+    const affected = [...this.utterances];
+    const sent = affected.some((u) => u.fed);
+    this.stopAll();
+    if (sent) {
+      await this.clearPlayback();
+    }
+    return affected;
+  }
+
+  /** @internal */
+  public handleWrite(utterance: Utterance, data: Buffer): void {
+    if (utterance.fed) {
+      this.session.player.enqueue(utterance.contentType, utterance.sampleRate, data);
+    }
+  }
+
+  /** @internal */
+  public handleEnd(utterance: Utterance): void {
+    if (utterance.fed) {
+      this.sendEnd(utterance);
+    }
+    this.pump();
+  }
+
+  /**
+   * Feed utterances to the player in order; an open utterance blocks the ones after it
+   */
+  private pump() {
+    if (!this.session.isStarted || !this.session.isActive) return;
+    for (const utterance of this.utterances) {
+      if (!utterance.fed) {
+        this.feed(utterance);
+      }
+      if (!utterance.ended) {
+        return;
+      }
+    }
+  }
+
+  private feed(utterance: Utterance) {
+    utterance.fed = true;
+    const generation = ++utterance.generation;
+
+    this.session
+      .checkpoint(`${utterance.id}:start`)
+      .then(() => {
+        if (utterance.generation !== generation || utterance.state !== 'queued') return;
+        utterance.state = 'playing';
+        utterance.startedAt = Date.now();
+        this.emit('stateChange', utterance);
+      })
+      .catch(() => {
+        // Settled through the end checkpoint or an interruption
+      });
+
+    for (const chunk of utterance.chunks) {
+      this.session.player.enqueue(utterance.contentType, utterance.sampleRate, chunk);
+    }
+    if (utterance.ended) {
+      this.sendEnd(utterance);
+    }
+  }
+
+  private sendEnd(utterance: Utterance) {
+    const generation = utterance.generation;
+    this.session.checkpoint(`${utterance.id}:end`).then(
+      () => {
+        if (utterance.generation !== generation) return;
+        this.remove(utterance, 'played');
+      },
+      (error) => {
+        if (utterance.generation !== generation) return;
+        if (error instanceof AckCancelledError) {
+          this.remove(utterance, utterance.state === 'playing' ? 'interrupted' : 'cancelled');
+        } else {
+          // The acknowledgement was lost; assume the audio finished playing
+          this.remove(utterance, 'played');
+        }
+      },
+    );
+  }
+
+  private stopAll() {
+    for (const u of [...this.utterances]) {
+      this.remove(u, u.state === 'playing' ? 'interrupted' : 'cancelled');
+    }
+  }
+
+  private async clearPlayback() {
+    if (!this.session.isActive) return;
+    this.ownClears++;
+    try {
+      await this.session.clearAudio();
+    } catch {
+      this.ownClears = Math.max(0, this.ownClears - 1);
+    }
+  }
+
+  private remove(utterance: Utterance, state: 'played' | 'interrupted' | 'cancelled') {
+    const index = this.utterances.indexOf(utterance);
+    if (index >= 0) this.utterances.splice(index, 1);
+    utterance.generation++;
+
+    let playedMs = 0;
+    if (state === 'played') {
+      playedMs = utterance.durationMs;
+    } else if (state === 'interrupted' && utterance.startedAt !== undefined) {
+      playedMs = Date.now() - utterance.startedAt;
+    }
+    utterance.finish(state, playedMs);
+    this.emit('stateChange', utterance);
+  }
+}
@@ -0,0 +1,415 @@
+import { open, type FileHandle } from 'fs/promises';
+import { WriteStream } from 'fs';
+import type { Writable } from 'stream';
+import type { PlivoStreamSession, OutboundAudio } from './session.js';
+import type { MediaEvent } from './types.js';
+import { decodeToPcm16, resamplePcm16 } from './audio.js';
+import { wavHeader, WAV_HEADER_SIZE } from './wav.js';
+
+export type RecordingChannels = 'inbound' | 'outbound' | 'stereo';
+
+export type RecordingDestination = string | Writable;
+
+export interface RecorderOptions {
+  /**
+   * File path or writable stream to write the WAV file to, or a function returning one
+   * (called once the start event has arrived, so `session.callId` is available).
+   * A file gets a finalised header when the recording stops. A stream gets the audio as it is recorded,
+   * after a header whose sizes are 0xFFFFFFFF placeholders; only an `fs.WriteStream` to a file is patched
+   * afterwards. Live audio cannot wait for a slow stream, so writes do not wait for `drain` and a stream
+   * that falls behind buffers the difference in memory.
+   */
+  destination: RecordingDestination | ((session: PlivoStreamSession<any, any>) => RecordingDestination);
+  /**
+   * What to record: the caller (`inbound`), audio sent with `playAudio` (`outbound`), or both
+   * time-aligned as a two-channel file with the caller on the left (`stereo`, default)
+   */
+  channels?: RecordingChannels;
+  /** Media track carrying the caller's audio (default: 'inbound') */
+  track?: string;
+}
+
+export interface RecordingSummary {
+  /** File path, when recording to a file */
+  path?: string;
+  channels: RecordingChannels;
+  sampleRate: number;
+  durationMs: number;
+  /** Size of the audio data in bytes, excluding the header */
+  dataBytes: number;
+}
+
+/**
+ * PCM16 samples positioned on a timeline, from `base` onward
+ */
+class Timeline {
+  public base = 0;
+  private data = Buffer.alloc(0);
+  private length = 0;
+
+  public get end(): number {
+    return this.base + this.length / 2;
+  }
+
+  public write(at: number, pcm: Buffer) {
+    if (at < this.base) {
+      pcm = pcm.subarray((this.base - at) * 2);
+      at = this.base;
+    }
+    const offset = (at - this.base) * 2;
+    const needed = offset + pcm.length;
+    if (needed > this.data.length) {
+      const grown = Buffer.alloc(Math.max(needed, this.data.length * 2));
+      this.data.copy(grown, 0, 0, this.length);
+      this.data = grown;
+    }
+    if (offset > this.length) {
+      this.data.fill(0, this.length, offset);
+    }
+    pcm.copy(this.data, offset);
+    this.length = Math.max(this.length, needed);
+  }
+
+  public truncate(at: number) {
+    this.length = Math.max(0, Math.min(this.length, (at - this.base) * 2));
+  }
+
+  public take(upTo: number): Buffer {
+    const bytes = Math.max(0, upTo - this.base) * 2;
+    const out = Buffer.alloc(bytes);
+    this.data.copy(out, 0, 0, Math.min(bytes, this.length));
+    const remaining = Math.max(0, this.length - bytes);
+    this.data = Buffer.from(this.data.subarray(bytes, bytes + remaining));
+    this.length = remaining;
+    this.base = Math.max(this.base, upTo);
+    return out;
+  }
+}
+
+interface WavSink {
+  write(data: Buffer): void;
+  finish(dataBytes: number, sampleRate: number, channels: number): Promise<void>;
+}
+
+/** Header for a WAV stream whose length is not known yet; readers take the data to run to the end */
+function streamingWavHeader(sampleRate: number, channels: number): Buffer {
+  const header = wavHeader(0, sampleRate, channels);
+  header.writeUInt32LE(0xffffffff, 4);
+  header.writeUInt32LE(0xffffffff, 40);
+  return header;
+}
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+class FileSink implements WavSink {
+  private pending: Promise<FileHandle | undefined>;
+  private position = WAV_HEADER_SIZE;
+  private error?: Error;
+
+  constructor(
+    path: string,
+    private readonly onError: (error: Error) => void,
+  ) {
+    this.pending = open(path, 'w').catch((error) => {
+      this.fail(error);
+      return undefined;
+    });
+  }
+
+  public write(data: Buffer) {
+    if (this.error) return;
+    const position = this.position;
+    this.position += data.length;
+    this.pending = this.pending.then(async (handle) => {
+      if (!handle || this.error) return handle;
+      try {
+        await handle.write(data, 0, data.length, position);
+      } catch (error) {
+        this.fail(error);
+      }
+      return handle;
+    });
+  }
+
+  public async finish(dataBytes: number, sampleRate: number, channels: number) {
+    const handle = await this.pending;
+    try {
+      if (this.error) throw this.error;
+      await handle!.write(wavHeader(dataBytes, sampleRate, channels), 0, WAV_HEADER_SIZE, 0);
+    } finally {
+      await handle?.close();
+    }
+  }
+
+  private fail(error: unknown) {
+    if (this.error) return;
+    this.error = toError(error);
+    this.onError(this.error);
+  }
+}
+
+/**
+ * Streams the WAV file as audio is committed, after a header with placeholder sizes.
+ * The sizes are patched at the end when the stream writes to a file that can be reopened.
+ * Backpressure is not applied: the call does not slow down for the stream.
+ */
+class StreamSink implements WavSink {
+  private error?: Error;
+  private readonly onStreamError = (error: Error) => {
+    if (this.error) return;
+    this.error = error;
+    this.onError(error);
+  };
+
+  constructor(
+    private readonly stream: Writable,
+    sampleRate: number,
+    channels: number,
+    private readonly onError: (error: Error) => void,
+  ) {
+    stream.on('error', this.onStreamError);
+    stream.write(streamingWavHeader(sampleRate, channels));
+  }
+
+  public write(data: Buffer) {
+    if (!this.error) this.stream.write(data);
+  }
+
+  public async finish(dataBytes: number, sampleRate: number, channels: number): Promise<void> {
+    if (this.error) throw this.error;
+    await new Promise<void>((resolve, reject) => {
+      this.stream.once('error', reject);
+      this.stream.end(() => resolve());
+    });
+    this.stream.off('error', this.onStreamError);
+    if (this.stream instanceof WriteStream && typeof this.stream.path === 'string') {
+      const handle = await open(this.stream.path, 'r+');
+      try {
+        await handle.write(wavHeader(dataBytes, sampleRate, channels), 0, WAV_HEADER_SIZE, 0);
+      } finally {
+        await handle.close();
+      }
+    }
+  }
+}
+
+/**
+ * Records a session's audio to a 16-bit PCM WAV file.
+ *
+ * Inbound audio is decoded with the start event's `mediaFormat`; outbound `playAudio`
+ * audio is decoded, resampled to the stream's rate and placed at its estimated playback
+ * time, and audio discarded by `clearAudio` before it played is dropped. The file is
+ * finalised when the session closes or `stop()` is called.
+ */
+export class CallRecorder {
+  public readonly channels: RecordingChannels;
+  /** Resolves with a summary once the WAV file has been finalised */
+  public readonly done: Promise<RecordingSummary>;
+
+  private readonly track: string;
+  private sink?: WavSink;
+  private path?: string;
+  private sampleRate = 0;
+  private startedAt = 0;
+  private inbound = new Timeline();
+  private outbound = new Timeline();
+  private inboundSamples = 0;
+  private dataBytes = 0;
+  private stopped = false;
+  private settle!: { resolve: (summary: RecordingSummary) => void; reject: (error: Error) => void };
+
+  private readonly onStart = () => {
+    this.begin();
+  };
+  private readonly onMedia = (event: MediaEvent) => this.handleInbound(event);
+  private readonly onOutbound = (event: OutboundAudio) => this.handleOutbound(event);
+  private readonly onCleared = (at: number) => {
+    if (this.sink) this.outbound.truncate(this.sampleAt(at));
+  };
+  private readonly onClose = () => {
+    this.stop().catch(() => {});
+  };
+
+  constructor(
+    private readonly session: PlivoStreamSession<any, any>,
+    private readonly options: RecorderOptions,
+    private readonly onError: (error: Error) => void = (error) => session.emit('error', error),
+  ) {
+    this.channels = options.channels ?? 'stereo';
+    this.track = options.track ?? 'inbound';
+    this.done = new Promise((resolve, reject) => {
+      this.settle = { resolve, reject };
+    });
+    this.done.catch(() => {});
+
+    session.on('close', this.onClose);
+    if (this.channels !== 'outbound') {
+      session.on('media', this.onMedia);
+    }
+    if (this.channels !== 'inbound') {
+      session.on('outboundAudio', this.onOutbound);
+      session.on('outboundCleared', this.onCleared);
+    }
+    if (!this.begin()) {
+      session.once('start', this.onStart);
+    }
+  }
+
+  private get channelCount(): number {
+    return this.channels === 'stereo' ? 2 : 1;
+  }
+
+  /**
+   * Stop recording and finalise the WAV file
+   */
+  public async stop(): Promise<RecordingSummary> {
+    if (this.stopped) {
+      return this.done;
+    }
+    this.stopped = true;
+    this.detach();
+
+    try {
+      if (!this.sink) {
+        throw new Error('Recording never started: no start event was received');
+      }
+      // Audio scheduled after this point never played
+      const end = this.channels === 'inbound' ? this.inboundSamples : this.sampleAt(Date.now());
+      if (this.channels !== 'inbound') {
+        this.outbound.truncate(end);
+      }
+      this.commit(this.channels === 'outbound' ? end : Math.max(this.inboundSamples, end));
+
+      const channelCount = this.channelCount;
+      await this.sink.finish(this.dataBytes, this.sampleRate, channelCount);
+      this.settle.resolve({
+        path: this.path,
+        channels: this.channels,
+        sampleRate: this.sampleRate,
+        durationMs: (this.dataBytes / channelCount / 2 / this.sampleRate) * 1000,
+        dataBytes: this.dataBytes,
+      });
+    } catch (error) {
+      this.settle.reject(toError(error));
+    }
+    return this.done;
+  }
+
+  /**
+   * Open the destination once the stream's media format is known. Audio sent from an
+   * `onStart` handler arrives before the session's `start` event, so every handler calls this.
+   */
+  private begin(): boolean {
+    if (this.sink) return true;
+    const mediaFormat = this.session.mediaFormat;
+    if (!mediaFormat || this.stopped) return false;
+
+    const onError = (error: Error) => this.fail(error);
+    try {
+      const { destination: target } = this.options;
+      const destination = typeof target === 'function' ? target(this.session) : target;
+      if (typeof destination === 'string') {
+        this.path = destination;
+        this.sink = new FileSink(destination, onError);
+      } else {
+        this.sink = new StreamSink(destination, mediaFormat.sampleRate, this.channelCount, onError);
+      }
+    } catch (error) {
+      this.fail(toError(error));
+      return false;
+    }
+    this.sampleRate = mediaFormat.sampleRate;
+    this.startedAt = Date.now();
+    return true;
+  }
+
+  /**
+   * Stop recording after the destination failed, rejecting `done` and reporting the error
+   */
+  private fail(error: Error) {
+    // While stopping, the failure surfaces through finish() instead
+    if (this.stopped) return;
+    this.stopped = true;
+    this.detach();
+    this.settle.reject(error);
+    // Release the file handle, if one was opened
+    this.sink?.finish(this.dataBytes, this.sampleRate, this.channelCount).catch(() => {});
+    this.report(error);
+  }
+
+  private report(error: Error) {
+    try {
+      this.onError(error);
+    } catch {
+      // Ignore errors in error handlers
+    }
+  }
+
+  private detach() {
+    this.session.off('start', this.onStart);
+    this.session.off('media', this.onMedia);
+    this.session.off('outboundAudio', this.onOutbound);
+    this.session.off('outboundCleared', this.onCleared);
+    this.session.off('close', this.onClose);
+  }
+
+  private handleInbound(event: MediaEvent) {
+    const mediaFormat = this.session.mediaFormat;
+    if (!mediaFormat || event.media.track !== this.track || !this.begin()) return;
+
+    const pcm = event.getPcm16({ mediaFormat });
+    this.inbound.write(this.inboundSamples, pcm);
+    this.inboundSamples += pcm.length / 2;
+    // In stereo, wait until outbound audio scheduled up to now can no longer change
+    this.commit(
+      this.channels === 'stereo' ? Math.min(this.inboundSamples, this.sampleAt(Date.now())) : this.inboundSamples,
+    );
+  }
+
+  private handleOutbound(event: OutboundAudio) {
+    if (!this.begin()) return;
+    let pcm: Buffer;
+    try {
+      pcm = resamplePcm16(decodeToPcm16(event.payload, event.contentType), event.sampleRate, this.sampleRate);
+    } catch (error) {
+      this.report(toError(error));
+      return;
+    }
+    this.outbound.write(this.sampleAt(event.playbackStartsAt), pcm);
+    if (this.channels === 'outbound') {
+      this.commit(this.sampleAt(Date.now()));
+    }
+  }
+
+  /**
+   * Write everything before `upTo` (in samples since the recording started) to the sink
+   */
+  private commit(upTo: number) {
+    if (!this.sink) return;
+    const from = this.channels === 'outbound' ? this.outbound.base : this.inbound.base;
+    if (upTo <= from) return;
+
+    let data: Buffer;
+    if (this.channels === 'inbound') {
+      data = this.inbound.take(upTo);
+    } else if (this.channels === 'outbound') {
+      data = this.outbound.take(upTo);
+    } else {
+      const left = this.inbound.take(upTo);
+      const right = this.outbound.take(upTo);
+      data = Buffer.alloc(left.length * 2);
+      for (let i = 0; i < left.length; i += 2) {
+        left.copy(data, i * 2, i, i + 2);
+        right.copy(data, i * 2 + 2, i, i + 2);
+      }
+    }
+    this.dataBytes += data.length;
+    this.sink.write(data);
+  }
+
+  private sampleAt(time: number): number {
+    return Math.max(0, Math.round(((time - this.startedAt) * this.sampleRate) / 1000));
+  }
+}
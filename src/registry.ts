@@ -0,0 +1,94 @@
+import { TypedEmitter } from './emitter.js';
+import type { ExtraHeaders } from './headers.js';
+import type { CloseInfo, PlivoStreamSession } from './session.js';
+
+export type SessionRegistryEventMap<
+  TData extends object = Record<string, any>,
+  THeaders extends object = ExtraHeaders,
+> = {
+  /** A connection was accepted */
+  added: [session: PlivoStreamSession<TData, THeaders>];
+  /** A session's start event arrived; it can now be looked up by callId and streamId */
+  started: [session: PlivoStreamSession<TData, THeaders>];
+  /** A connection closed */
+  removed: [session: PlivoStreamSession<TData, THeaders>, info: CloseInfo];
+};
+
+/**
+ * The sessions of a server's open connections, indexed by callId and streamId once started
+ */
+export class SessionRegistry<
+  TData extends object = Record<string, any>,
+  THeaders extends object = ExtraHeaders,
+> extends TypedEmitter<SessionRegistryEventMap<TData, THeaders>> {
+  private readonly active = new Set<PlivoStreamSession<TData, THeaders>>();
+  private readonly byCallId = new Map<string, PlivoStreamSession<TData, THeaders>>();
+  private readonly byStreamId = new Map<string, PlivoStreamSession<TData, THeaders>>();
+
+  /**
+   * Number of open connections, including those still waiting for their start event
+   */
+  public get size(): number {
+    return this.active.size;
+  }
+
+  /**
+   * Number of open connections whose start event has arrived
+   */
+  public get startedCount(): number {
+    let count = 0;
+    for (const session of this.active) {
+      if (session.isStarted) count++;
+    }
+    return count;
+  }
+
+  public getByCallId(callId: string): PlivoStreamSession<TData, THeaders> | undefined {
+    return this.byCallId.get(callId);
+  }
+
+  public getByStreamId(streamId: string): PlivoStreamSession<TData, THeaders> | undefined {
+    return this.byStreamId.get(streamId);
+  }
+
+  public has(session: PlivoStreamSession<TData, THeaders>): boolean {
+    return this.active.has(session);
+  }
+
+  public values(): IterableIterator<PlivoStreamSession<TData, THeaders>> {
+    return this.active.values();
+  }
+
+  public [Symbol.iterator](): IterableIterator<PlivoStreamSession<TData, THeaders>> {
+    return this.values();
+  }
+
+  /** @internal */
+  public add(session: PlivoStreamSession<TData, THeaders>): void {
+    if (this.active.has(session)) return;
+    this.active.add(session);
+    this.emit('added', session);
+  }
+
+  /** @internal */
+  public index(session: PlivoStreamSession<TData, THeaders>): void {
+    const { callId, streamId } = session;
+    if (!this.active.has(session) || !callId || !streamId) return;
+    this.byCallId.set(callId, session);
+    this.byStreamId.set(streamId, session);
+    this.emit('started', session);
+  }
+
+  /** @internal */
+  public remove(session: PlivoStreamSession<TData, THeaders>, info: CloseInfo): void {
+    if (!this.active.delete(session)) return;
+    // A newer connection may have taken over the same ids
+    if (session.callId && this.byCallId.get(session.callId) === session) {
+      this.byCallId.delete(session.callId);
+    }
+    if (session.streamId && this.byStreamId.get(session.streamId) === session) {
+      this.byStreamId.delete(session.streamId);
+    }
+    this.emit('removed', session, info);
+  }
+}
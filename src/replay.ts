@@ -0,0 +1,93 @@
+import { EventEmitter } from 'events';
+import { IncomingMessage } from 'http';
+import { Socket } from 'net';
+import type { CaptureEntry } from './capture.js';
+import type { ExtraHeaders } from './headers.js';
+import type { PlivoStreamSession } from './session.js';
+
+export interface ReplayOptions {
+  /** Reproduce the captured timing between messages (default: true); `false` replays as fast as possible */
+  realtime?: boolean;
+  /** Playback speed multiplier for real-time replay (default: 1) */
+  speed?: number;
+}
+
+export interface ReplayResult<TData extends object = Record<string, any>, THeaders extends object = ExtraHeaders> {
+  /** Session the log was replayed into */
+  session: PlivoStreamSession<TData, THeaders>;
+  /** Messages the handlers sent during the replay */
+  sent: unknown[];
+  /** Messages sent in the captured call, for comparison */
+  recorded: unknown[];
+}
+
+/**
+ * In-memory stand-in for a `ws` WebSocket: replayed messages are emitted as `message`
+ * events and everything sent is collected in `sent`
+ */
+export class ReplaySocket extends EventEmitter {
+  public readonly CONNECTING = 0;
+  public readonly OPEN = 1;
+  public readonly CLOSING = 2;
+  public readonly CLOSED = 3;
+  public readyState = 1;
+  public bufferedAmount = 0;
+  public readonly sent: unknown[] = [];
+
+  public send(data: string): void {
+    if (this.readyState !== this.OPEN) return;
+    try {
+      this.sent.push(JSON.parse(data));
+    } catch {
+      this.sent.push(data);
+    }
+  }
+
+  public close(code = 1005, reason = ''): void {
+    if (this.readyState === this.CLOSED) return;
+    this.readyState = this.CLOSED;
+    this.emit('close', code, Buffer.from(reason));
+  }
+}
+
+/**
+ * Rebuild the upgrade request from a capture's `connection` entry
+ */
+export function createReplayRequest(entry?: Extract<CaptureEntry, { type: 'connection' }>): IncomingMessage {
+  const request = new IncomingMessage(new Socket());
+  request.method = 'GET';
+  request.url = entry?.url ?? '/';
+  request.headers = entry?.headers ?? {};
+  return request;
+}
+
+/**
+ * Emit a capture's inbound messages on the socket, then close it as the captured call closed
+ */
+export async function replayEntries(
+  entries: CaptureEntry[],
+  socket: ReplaySocket,
+  options: ReplayOptions = {},
+): Promise<void> {
+  const realtime = options.realtime ?? true;
+  const speed = options.speed ?? 1;
+  let previous: number | undefined;
+  let close: Extract<CaptureEntry, { type: 'close' }> | undefined;
+
+  for (const entry of entries) {
+    if (entry.type !== 'inbound' && entry.type !== 'close') continue;
+
+    const delay = realtime && previous !== undefined ? (entry.t - previous) / speed : 0;
+    await new Promise((resolve) => (delay > 0 ? setTimeout(resolve, delay) : setImmediate(resolve)));
+    previous = entry.t;
+    if (socket.readyState !== socket.OPEN) return;
+
+    if (entry.type === 'close') {
+      close = entry;
+      break;
+    }
+    const raw = typeof entry.message === 'string' ? entry.message : JSON.stringify(entry.message);
+    socket.emit('message', Buffer.from(raw));
+  }
+  socket.close(close?.code ?? 1000, close?.reason ?? '');
+}
@@ -0,0 +1,360 @@
+import { randomUUID } from 'crypto';
+import { RoutingError } from './errors.js';
+import type { SessionRegistry } from './registry.js';
+import { DEFAULT_ACK_TIMEOUTS, type AckOptions, type AckTimeouts, type PlivoStreamSession } from './session.js';
+import type { ClearedAudioEvent, PlayedStreamEvent } from './types.js';
+
+/**
+ * A command for the node that owns a stream
+ */
+export type RoutedCommand =
+  | { action: 'playAudio'; contentType: string; sampleRate: number; /** Base64 */ payload: string }
+  | { action: 'checkpoint'; name: string; timeoutMs?: number }
+  | { action: 'clearAudio'; timeoutMs?: number }
+  | { action: 'close'; code?: number; reason?: string };
+
+/**
+ * Messages exchanged between routers. Transports carry them as-is; they are plain JSON.
+ */
+export type RoutingMessage =
+  /** `from` owns the stream, and waits this long for its acknowledgements */
+  | { type: 'claim'; from: string; callId: string; streamId: string; ackTimeouts?: Required<AckTimeouts> }
+  /** `from` no longer owns the stream */
+  | { type: 'release'; from: string; callId: string; streamId: string }
+  /** `from` just joined; every node re-announces its streams */
+  | { type: 'sync'; from: string }
+  /** `from` died without releasing its streams; sent on its behalf, e.g. by `relayIpcRouting` */
+  | { type: 'leave'; from: string }
+  | { type: 'command'; from: string; to: string; id: string; streamId: string; command: RoutedCommand }
+  | {
+      type: 'reply';
+      from: string;
+      to: string;
+      id: string;
+      result?: unknown;
+      error?: { name: string; message: string };
+    };
+
+/**
+ * Carries routing messages between `PlivoWebSocketServer` instances. `publish` must reach every
+ * subscribed router (delivering to the sender too is fine) and keep messages from one sender in order.
+ * A Redis adapter, for example, would PUBLISH/SUBSCRIBE on a single channel.
+ */
+export interface RoutingTransport {
+  publish(message: RoutingMessage): void | Promise<void>;
+  /** Start receiving messages; returns a function that stops */
+  subscribe(handler: (message: RoutingMessage) => void): () => void;
+}
+
+export interface CommandRouterOptions {
+  transport: RoutingTransport;
+  /** Unique id of this instance (default: random) */
+  nodeId?: string;
+  /**
+   * Milliseconds to wait for a remote node to answer a command (default: 5000). For `checkpoint` and
+   * `clearAudio`, the acknowledgement timeout the owner applies is added: the command's `timeoutMs`, or else the
+   * owner's `ackTimeouts`. When that is 0 the owner waits indefinitely, and so does the router.
+   */
+  timeoutMs?: number;
+}
+
+interface PendingReply {
+  resolve: (value: any) => void;
+  reject: (error: Error) => void;
+  timer?: ReturnType<typeof setTimeout>;
+  owner: string;
+  streamId: string;
+}
+
+/**
+ * Routes `playAudio`/`checkpoint`/`clearAudio`/close commands to whichever instance holds a stream.
+ * Each router announces the streams of its own server and tracks the streams announced by the others.
+ *
+ * A router that closes releases its streams. An instance that dies without closing leaves its claims
+ * behind, and commands for them reject with a `timeout`, until a `leave` message for it arrives.
+ */
+export class CommandRouter {
+  public readonly nodeId: string;
+  private readonly timeoutMs: number;
+  private readonly transport: RoutingTransport;
+  private readonly ackTimeouts: Required<AckTimeouts>;
+  private readonly owners = new Map<string, string>();
+  private readonly ownerAckTimeouts = new Map<string, Required<AckTimeouts>>();
+  private readonly callStreams = new Map<string, string>();
+  private readonly pending = new Map<string, PendingReply>();
+  private readonly unsubscribe: () => void;
+  private closed = false;
+
+  private readonly onStarted = (session: PlivoStreamSession<any, any>) => this.announce('claim', session);
+  private readonly onRemoved = (session: PlivoStreamSession<any, any>) => this.announce('release', session);
+
+  constructor(
+    private readonly sessions: SessionRegistry<any, any>,
+    options: CommandRouterOptions,
+    ackTimeouts: AckTimeouts = {},
+  ) {
+    this.nodeId = options.nodeId ?? randomUUID();
+    this.timeoutMs = options.timeoutMs ?? 5000;
+    this.ackTimeouts = { ...DEFAULT_ACK_TIMEOUTS, ...ackTimeouts };
+    this.transport = options.transport;
+    this.unsubscribe = this.transport.subscribe((message) => this.receive(message));
+    sessions.on('started', this.onStarted);
+    sessions.on('removed', this.onRemoved);
+    for (const session of sessions) {
+      if (session.isStarted) this.announce('claim', session);
+    }
+    this.publish({ type: 'sync', from: this.nodeId });
+  }
+
+  /**
+   * Commands for the call with this callId, wherever it is connected
+   */
+  public call(callId: string): RoutedSession {
+    const resolveStreamId = () => this.sessions.getByCallId(callId)?.streamId ?? this.callStreams.get(callId);
+    return new RoutedSession(this, resolveStreamId, { callId });
+  }
+
+  /**
+   * Commands for the stream with this streamId, wherever it is connected
+   */
+  public stream(streamId: string): RoutedSession {
+    return new RoutedSession(this, () => streamId, { streamId });
+  }
+
+  /**
+   * Node id of the instance holding a stream, if known
+   */
+  public ownerOf(streamId: string): string | undefined {
+    return this.sessions.getByStreamId(streamId) ? this.nodeId : this.owners.get(streamId);
+  }
+
+  /**
+   * Release this node's streams, stop listening and reject commands still awaiting a reply
+   */
+  public close(): void {
+    if (this.closed) return;
+    for (const session of this.sessions) {
+      if (session.isStarted) this.announce('release', session);
+    }
+    this.closed = true;
+    this.sessions.off('started', this.onStarted);
+    this.sessions.off('removed', this.onRemoved);
+    this.unsubscribe();
+    for (const [id, reply] of this.pending) {
+      clearTimeout(reply.timer);
+      reply.reject(new RoutingError('closed', `Router closed before ${reply.streamId} replied`));
+      this.pending.delete(id);
+    }
+  }
+
+  /** @internal */
+  public send(streamId: string | undefined, command: RoutedCommand, label: string): Promise<any> {
+    if (this.closed) {
+      return Promise.reject(new RoutingError('closed', 'Router is closed'));
+    }
+    const local = streamId ? this.sessions.getByStreamId(streamId) : undefined;
+    if (local) {
+      return execute(local, command);
+    }
+    const owner = streamId ? this.owners.get(streamId) : undefined;
+    if (!streamId || !owner) {
+      return Promise.reject(new RoutingError('notFound', `${label} is not active on any instance`));
+    }
+
+    const id = randomUUID();
+    const ackMs = this.ackTimeoutOf(owner, command);
+    const timeoutMs = this.timeoutMs + (ackMs ?? 0);
+    return new Promise((resolve, reject) => {
+      const timer =
+        ackMs === 0
+          ? undefined
+          : setTimeout(() => {
+              this.pending.delete(id);
+              const message = `${owner} did not answer ${command.action} for ${label} within ${timeoutMs}ms`;
+              reject(new RoutingError('timeout', message));
+            }, timeoutMs);
+      this.pending.set(id, { resolve, reject, timer, owner, streamId });
+      this.publish({ type: 'command', from: this.nodeId, to: owner, id, streamId, command }, (error) => {
+        clearTimeout(timer);
+        this.pending.delete(id);
+        reject(error);
+      });
+    });
+  }
+
+  private receive(message: RoutingMessage) {
+    if (this.closed || message.from === this.nodeId) return;
+    switch (message.type) {
+      case 'claim':
+        this.owners.set(message.streamId, message.from);
+        this.callStreams.set(message.callId, message.streamId);
+        if (message.ackTimeouts) this.ownerAckTimeouts.set(message.from, message.ackTimeouts);
+        break;
+
+      case 'release':
+        if (this.owners.get(message.streamId) === message.from) {
+          this.owners.delete(message.streamId);
+          this.callStreams.delete(message.callId);
+        }
+        this.rejectPending(message.streamId, message.from);
+        break;
+
+      case 'leave':
+        for (const [streamId, owner] of this.owners) {
+          if (owner === message.from) this.owners.delete(streamId);
+        }
+        for (const [callId, streamId] of this.callStreams) {
+          if (!this.owners.has(streamId)) this.callStreams.delete(callId);
+        }
+        this.ownerAckTimeouts.delete(message.from);
+        this.rejectPending(undefined, message.from);
+        break;
+
+      case 'sync':
+        for (const session of this.sessions) {
+          if (session.isStarted) this.announce('claim', session);
+        }
+        break;
+
+      case 'command':
+        if (message.to === this.nodeId) {
+          this.handleCommand(message);
+        }
+        break;
+
+      case 'reply':
+        if (message.to === this.nodeId) {
+          this.handleReply(message);
+        }
+        break;
+    }
+  }
+
+  private handleCommand(message: Extract<RoutingMessage, { type: 'command' }>) {
+    const reply = (fields: { result?: unknown; error?: { name: string; message: string } }) =>
+      this.publish({ type: 'reply', from: this.nodeId, to: message.from, id: message.id, ...fields });
+
+    const session = this.sessions.getByStreamId(message.streamId);
+    if (!session) {
+      reply({ error: { name: 'RoutingError', message: `Stream ${message.streamId} is not active on ${this.nodeId}` } });
+      return;
+    }
+    if (message.command.action === 'close') {
+      // Reply first: closing publishes a release, which would otherwise overtake the reply and reject the command
+      reply({});
+      session.close(message.command.code, message.command.reason);
+      return;
+    }
+    execute(session, message.command).then(
+      (result) => reply({ result }),
+      (error) => reply({ error: { name: error?.name ?? 'Error', message: error?.message ?? String(error) } }),
+    );
+  }
+
+  private handleReply(message: Extract<RoutingMessage, { type: 'reply' }>) {
+    const pending = this.pending.get(message.id);
+    if (!pending) return;
+    clearTimeout(pending.timer);
+    this.pending.delete(message.id);
+    if (message.error) {
+      pending.reject(new RoutingError('remote', message.error.message, message.error.name));
+    } else {
+      pending.resolve(message.result);
+    }
+  }
+
+  /** Reject commands awaiting `owner`, for one stream or (without `streamId`) all of them */
+  private rejectPending(streamId: string | undefined, owner: string) {
+    for (const [id, pending] of this.pending) {
+      if ((streamId && pending.streamId !== streamId) || pending.owner !== owner) continue;
+      clearTimeout(pending.timer);
+      this.pending.delete(id);
+      const message = streamId ? `Stream ${streamId} closed before replying` : `${owner} left before replying`;
+      pending.reject(new RoutingError('closed', message));
+    }
+  }
+
+  /** Milliseconds the owner waits for Plivo to acknowledge a command, if it waits at all */
+  private ackTimeoutOf(owner: string, command: RoutedCommand): number | undefined {
+    if (command.action !== 'checkpoint' && command.action !== 'clearAudio') return undefined;
+    const ackTimeouts = this.ownerAckTimeouts.get(owner) ?? DEFAULT_ACK_TIMEOUTS;
+    return command.timeoutMs ?? (command.action === 'checkpoint' ? ackTimeouts.checkpointMs : ackTimeouts.clearAudioMs);
+  }
+
+  private announce(type: 'claim' | 'release', session: PlivoStreamSession<any, any>) {
+    if (this.closed || !session.callId || !session.streamId) return;
+    const { callId, streamId } = session;
+    this.publish(
+      type === 'claim'
+        ? { type, from: this.nodeId, callId, streamId, ackTimeouts: this.ackTimeouts }
+        : { type, from: this.nodeId, callId, streamId },
+    );
+  }
+
+  private publish(message: RoutingMessage, onError?: (error: Error) => void) {
+    const fail = (error: unknown) => onError?.(error instanceof Error ? error : new Error(String(error)));
+    try {
+      Promise.resolve(this.transport.publish(message)).catch(fail);
+    } catch (error) {
+      fail(error);
+    }
+  }
+}
+
+/**
+ * Handle for sending commands to a call or stream on any instance. Every method resolves
+ * once the owning instance has carried the command out (or Plivo has acknowledged it).
+ */
+export class RoutedSession {
+  constructor(
+    private readonly router: CommandRouter,
+    private readonly resolveStreamId: () => string | undefined,
+    private readonly target: { callId?: string; streamId?: string },
+  ) {}
+
+  public get callId(): string | undefined {
+    return this.target.callId;
+  }
+
+  public get streamId(): string | undefined {
+    return this.resolveStreamId();
+  }
+
+  public playAudio(contentType: string, sampleRate: number, payload: Buffer | Uint8Array | ArrayBuffer): Promise<void> {
+    const base64 = Buffer.from(payload instanceof ArrayBuffer ? new Uint8Array(payload) : payload).toString('base64');
+    return this.send({ action: 'playAudio', contentType, sampleRate, payload: base64 });
+  }
+
+  public checkpoint(name: string, options: AckOptions = {}): Promise<PlayedStreamEvent> {
+    return this.send({ action: 'checkpoint', name, timeoutMs: options.timeoutMs });
+  }
+
+  public clearAudio(options: AckOptions = {}): Promise<ClearedAudioEvent> {
+    return this.send({ action: 'clearAudio', timeoutMs: options.timeoutMs });
+  }
+
+  public close(code?: number, reason?: string): Promise<void> {
+    return this.send({ action: 'close', code, reason });
+  }
+
+  private send(command: RoutedCommand): Promise<any> {
+    const label = this.target.callId ? `Call ${this.target.callId}` : `Stream ${this.target.streamId}`;
+    return this.router.send(this.resolveStreamId(), command, label);
+  }
+}
+
+async function execute(session: PlivoStreamSession<any, any>, command: RoutedCommand): Promise<unknown> {
+  const options = 'timeoutMs' in command && command.timeoutMs !== undefined ? { timeoutMs: command.timeoutMs } : {};
+  switch (command.action) {
+    case 'playAudio':
+      session.playAudio(command.contentType, command.sampleRate, Buffer.from(command.payload, 'base64'));
+      return undefined;
+    case 'checkpoint':
+      return session.checkpoint(command.name, options);
+    case 'clearAudio':
+      return session.clearAudio(options);
+    case 'close':
+      session.close(command.code, command.reason);
+      return undefined;
+  }
+}
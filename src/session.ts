@@ -0,0 +1,671 @@
+import type { WebSocket as WebSocketType } from 'ws';
+import type { IncomingMessage } from 'http';
+import type {
+  StartEvent,
+  MediaEvent,
+  DTMFEvent,
+  PlayedStreamEvent,
+  ClearedAudioEvent,
+  PlayAudioEvent,
+  CheckpointEvent,
+  ClearAudioEvent,
+  MediaFormat,
+  OutboundEvent,
+  UnknownEvent,
+} from './types.js';
+import { encodePlayAudio } from './types.js';
+import { audioDurationMs, parseEncoding, pcm16ToMedia } from './audio.js';
+import { AckCancelledError, AckTimeoutError, AudioFormatError } from './errors.js';
+import { AudioPlayer, type AudioPlayerOptions } from './player.js';
+import { PendingAcks } from './acks.js';
+import { PlaybackQueue } from './queue.js';
+import { TypedEmitter, type Listener } from './emitter.js';
+import { VoiceActivityDetector, type SpeechEvent, type VadOptions } from './vad.js';
+import { BargeInController, type BargeInOptions, type InterruptedEvent } from './bargein.js';
+import type { JitterBuffer, MediaStats } from './jitter.js';
+import type { StreamCapture } from './capture.js';
+import type { MiddlewareRunner } from './middleware.js';
+import { LivenessMonitor, type LivenessOptions, type MediaTimeoutEvent } from './liveness.js';
+import { SessionMetrics, type ServerMetrics } from './metrics.js';
+import type { ExtraHeaders } from './headers.js';
+import { createLogger, type BoundLogger, type Logger } from './logger.js';
+import {
+  collectDigits,
+  runMenu,
+  type CollectDigitsOptions,
+  type CollectedDigits,
+  type MenuOptions,
+  type MenuResult,
+} from './ivr.js';
+import { CallRecorder, type RecorderOptions } from './recorder.js';
+import {
+  InboundAudioStream,
+  OutboundAudioStream,
+  type InboundAudioOptions,
+  type OutboundAudioOptions,
+} from './streams.js';
+
+export interface AckTimeouts {
+  /** Milliseconds to wait for `playedStream` after a checkpoint is sent (default: 60000, 0 disables) */
+  checkpointMs?: number;
+  /** Milliseconds to wait for `clearedAudio` after clearAudio is sent (default: 5000, 0 disables) */
+  clearAudioMs?: number;
+}
+
+/** Acknowledgement timeouts used when `ackTimeouts` leaves one out */
+export const DEFAULT_ACK_TIMEOUTS: Required<AckTimeouts> = { checkpointMs: 60000, clearAudioMs: 5000 };
+
+export interface AckOptions {
+  /** Override the session's acknowledgement timeout for this call (0 disables) */
+  timeoutMs?: number;
+}
+
+export interface PlivoStreamSessionOptions {
+  /** Options for the session's paced outbound `player` */
+  playback?: AudioPlayerOptions;
+  /** Default timeouts for checkpoint and clearAudio acknowledgements */
+  ackTimeouts?: AckTimeouts;
+  /** Enable voice activity detection on inbound media */
+  vad?: VadOptions;
+  /** Enable automatic barge-in */
+  bargeIn?: BargeInOptions;
+  /** Record the call to a WAV file */
+  record?: RecorderOptions;
+  /** Logger for this session; secrets are redacted and callId/streamId are bound once the stream starts */
+  logger?: Logger;
+  /** Heartbeats and inactivity timeouts */
+  liveness?: LivenessOptions;
+  /**
+   * Receives failures of the session's barge-in, recording and liveness checks, such as a barge-in `clearAudio`
+   * that is never acknowledged, a recording destination that cannot be written or a throwing `mediaTimeout` handler
+   * (default: emitted as the session's `error`)
+   */
+  onError?: (error: Error) => void;
+  /** Server-wide metrics this session's counters are added to */
+  metrics?: ServerMetrics;
+  /** Options for the `inbound` and `outbound` audio streams */
+  audioStreams?: AudioStreamOptions;
+}
+
+export interface AudioStreamOptions {
+  inbound?: InboundAudioOptions;
+  outbound?: OutboundAudioOptions;
+}
+
+/**
+ * Why a connection closed: closed by the remote side (or dropped), closed with `session.close()`,
+ * closed by a liveness check or closed by `server.drain()`
+ */
+export type CloseReason =
+  | 'remote'
+  | 'local'
+  | 'pingTimeout'
+  | 'startTimeout'
+  | 'mediaTimeout'
+  | 'maxDuration'
+  | 'shutdown';
+
+export interface CloseInfo {
+  reason: CloseReason;
+  /** WebSocket close code */
+  code: number;
+  /** WebSocket close reason text */
+  message: string;
+}
+
+export interface OutboundAudio {
+  contentType: string;
+  sampleRate: number;
+  /** Raw audio as sent */
+  payload: Buffer;
+  /** Estimated time Plivo starts playing this audio (ms since epoch) */
+  playbackStartsAt: number;
+}
+
+/** How long past the estimated end of playback to wait for a trailing checkpoint's `playedStream` */
+const PLAYBACK_ACK_SLACK_MS = 2000;
+
+/**
+ * Events emitted by a single `PlivoStreamSession`, keyed by event name.
+ */
+export type SessionEventMap<THeaders extends object = ExtraHeaders> = {
+  start: [event: StartEvent<THeaders>];
+  media: [event: MediaEvent];
+  dtmf: [event: DTMFEvent];
+  playedStream: [event: PlayedStreamEvent];
+  clearedAudio: [event: ClearedAudioEvent];
+  speechStart: [event: SpeechEvent];
+  speechEnd: [event: SpeechEvent];
+  interrupted: [event: InterruptedEvent];
+  /** Audio was sent with `playAudio` */
+  outboundAudio: [event: OutboundAudio];
+  /** `clearAudio` was sent; audio not played by `at` (ms since epoch) is discarded */
+  outboundCleared: [at: number];
+  /** Inbound message with an event type the SDK does not handle */
+  unknownEvent: [event: UnknownEvent];
+  /** No inbound media within the liveness `mediaTimeoutMs` */
+  mediaTimeout: [event: MediaTimeoutEvent];
+  error: [error: Error];
+  close: [info: CloseInfo];
+};
+
+export type SessionEventName = keyof SessionEventMap;
+
+export type SessionListener<K extends SessionEventName> = Listener<SessionEventMap[K]>;
+
+/**
+ * A single Plivo media stream, created for every accepted WebSocket connection.
+ *
+ * Exposes the stream metadata from the `start` event, the outbound actions
+ * (`playAudio`, `checkpoint`, `clearAudio`) and a typed per-session event API.
+ * Arbitrary per-call state can be kept on `data`.
+ */
+export class PlivoStreamSession<
+  TData extends object = Record<string, any>,
+  THeaders extends object = ExtraHeaders,
+> extends TypedEmitter<SessionEventMap<THeaders>> {
+  /** User-defined per-session state */
+  public data: TData = {} as TData;
+
+  /** Paced, frame-chunked outbound audio for this stream */
+  public readonly player: AudioPlayer;
+
+  /** Voice activity detector fed from inbound media, when enabled */
+  public vad?: VoiceActivityDetector;
+
+  /** Automatic barge-in, when enabled */
+  public bargeIn?: BargeInController;
+
+  /** Call recorder, when recording */
+  public recorder?: CallRecorder;
+
+  /** Inbound media reorder buffer, when enabled on the server */
+  public jitterBuffer?: JitterBuffer;
+
+  /** Raw message capture, when enabled on the server */
+  public capture?: StreamCapture;
+
+  /** @internal */
+  public middleware?: MiddlewareRunner<TData, THeaders>;
+
+  /** Heartbeat and inactivity checks, when enabled */
+  public liveness?: LivenessMonitor;
+
+  /** Media, error and latency counters for this stream */
+  public readonly metrics: SessionMetrics;
+
+  /** Logger bound to this connection (silent unless the server was given a logger) */
+  public logger: BoundLogger;
+
+  /** How the connection closed, once it has */
+  public closeInfo?: CloseInfo;
+
+  private startEvent?: StartEvent<THeaders>;
+  private pendingCloseReason?: CloseReason;
+  private readonly baseLogger: BoundLogger;
+  private playbackQueue?: PlaybackQueue;
+  private readonly audioStreamOptions: AudioStreamOptions;
+  private inboundStream?: InboundAudioStream;
+  private outboundStream?: OutboundAudioStream;
+  private outboundStartedAt?: number;
+  private outboundEndsAt = 0;
+  private trailingCheckpoint?: string;
+  private readonly ackTimeouts: Required<AckTimeouts>;
+  private readonly onError?: (error: Error) => void;
+  private checkpointAcks = new PendingAcks<PlayedStreamEvent>();
+  private clearAudioAcks = new PendingAcks<ClearedAudioEvent>();
+
+  constructor(
+    public readonly ws: WebSocketType,
+    public readonly request: IncomingMessage,
+    options: PlivoStreamSessionOptions = {},
+  ) {
+    super();
+    this.baseLogger = createLogger(options.logger);
+    this.logger = this.baseLogger;
+    this.metrics = new SessionMetrics(options.metrics);
+    this.player = new AudioPlayer(this, options.playback);
+    this.audioStreamOptions = options.audioStreams ?? {};
+    this.onError = options.onError;
+    this.ackTimeouts = {
+      checkpointMs: options.ackTimeouts?.checkpointMs ?? DEFAULT_ACK_TIMEOUTS.checkpointMs,
+      clearAudioMs: options.ackTimeouts?.clearAudioMs ?? DEFAULT_ACK_TIMEOUTS.clearAudioMs,
+    };
+    if (options.vad) {
+      this.enableVad(options.vad);
+    }
+    if (options.bargeIn) {
+      this.enableBargeIn(options.bargeIn);
+    }
+    if (options.record) {
+      this.record(options.record);
+    }
+    if (options.liveness) {
+      this.liveness = new LivenessMonitor(this, options.liveness, options.onError);
+    }
+  }
+
+  /**
+   * Enable voice activity detection on this stream's inbound media.
+   * Speech boundaries are emitted as `speechStart` / `speechEnd` session events.
+   */
+  public enableVad(options: VadOptions = {}): VoiceActivityDetector {
+    if (this.vad) {
+      return this.vad;
+    }
+    const vad = new VoiceActivityDetector(options);
+    vad.on('speechStart', (event) => this.emit('speechStart', event));
+    vad.on('speechEnd', (event) => this.emit('speechEnd', event));
+    this.vad = vad;
+    return vad;
+  }
+
+  /**
+   * Enable automatic barge-in: caller speech (or DTMF) while outbound audio is playing
+   * clears it and emits an `interrupted` event.
+   */
+  public enableBargeIn(options: BargeInOptions = {}): BargeInController {
+    this.bargeIn ??= new BargeInController(this, options, this.onError);
+    return this.bargeIn;
+  }
+
+  /**
+   * Record this call to a 16-bit PCM WAV file. Recording starts with the start event and
+   * the file is finalised when the session closes or `recorder.stop()` is called.
+   */
+  public record(options: RecorderOptions): CallRecorder {
+    this.recorder ??= new CallRecorder(this, options, this.onError);
+    return this.recorder;
+  }
+
+  /**
+   * Gather DTMF digits until `maxDigits`, `finishOnKey` or a timeout
+   */
+  public collectDigits(options: CollectDigitsOptions = {}): Promise<CollectedDigits> {
+    return collectDigits(this, options);
+  }
+
+  /**
+   * Play a prompt, collect a selection and route it to the matching handler, retrying on invalid input
+   */
+  public menu(options: MenuOptions<TData>): Promise<MenuResult> {
+    return runMenu(this, options);
+  }
+
+  /**
+   * Inbound media counters (received, lost, late, duplicated, reordered, ...), when the jitter buffer is enabled
+   */
+  public get mediaStats(): MediaStats | undefined {
+    return this.jitterBuffer?.stats;
+  }
+
+  /**
+   * Whether `queue` has been created
+   */
+  public get hasQueue(): boolean {
+    return this.playbackQueue !== undefined;
+  }
+
+  /**
+   * Utterance-level playback queue built on `player` and checkpoints, created on first access
+   */
+  public get queue(): PlaybackQueue {
+    this.playbackQueue ??= new PlaybackQueue(this);
+    return this.playbackQueue;
+  }
+
+  /**
+   * Inbound audio as a `Readable` / `AsyncIterable<Buffer>`, ending when the connection closes.
+   * Created on first access (and again once a previous one is destroyed); earlier frames are not included.
+   */
+  public get inbound(): InboundAudioStream {
+    if (!this.inboundStream || this.inboundStream.destroyed) {
+      this.inboundStream = this.createInboundStream(this.audioStreamOptions.inbound);
+    }
+    return this.inboundStream;
+  }
+
+  /**
+   * `Writable` that plays the audio written to it. Created on first access, and again once a previous one
+   * has ended, so each `pipe()` or `pipeline()` into it can end it.
+   */
+  public get outbound(): OutboundAudioStream {
+    if (!this.outboundStream || this.outboundStream.writableEnded || this.outboundStream.destroyed) {
+      this.outboundStream = this.createOutboundStream(this.audioStreamOptions.outbound);
+    }
+    return this.outboundStream;
+  }
+
+  /**
+   * A separate inbound audio stream, e.g. decoded to PCM16 at another sample rate
+   */
+  public createInboundStream(options: InboundAudioOptions = {}): InboundAudioStream {
+    return new InboundAudioStream(this, options);
+  }
+
+  /**
+   * A separate outbound audio stream, e.g. accepting PCM16 at another sample rate
+   */
+  public createOutboundStream(options: OutboundAudioOptions = {}): OutboundAudioStream {
+    return new OutboundAudioStream(this, options);
+  }
+
+  // Stream metadata (available after the start event)
+
+  public get streamId(): string | undefined {
+    return this.startEvent?.start.streamId;
+  }
+
+  public get callId(): string | undefined {
+    return this.startEvent?.start.callId;
+  }
+
+  public get accountId(): string | undefined {
+    return this.startEvent?.start.accountId;
+  }
+
+  public get tracks(): string[] | undefined {
+    return this.startEvent?.start.tracks;
+  }
+
+  public get mediaFormat(): MediaFormat | undefined {
+    return this.startEvent?.start.mediaFormat;
+  }
+
+  public get extraHeaders(): string | undefined {
+    return this.startEvent?.extra_headers;
+  }
+
+  /**
+   * Extra headers parsed into a record, validated against the server's `headersSchema` if one is set
+   */
+  public get headers(): THeaders | undefined {
+    return this.startEvent?.headers;
+  }
+
+  /**
+   * Whether the start event has been received for this stream
+   */
+  public get isStarted(): boolean {
+    return this.startEvent !== undefined;
+  }
+
+  /**
+   * Whether outbound audio is queued in `player` or estimated to still be playing,
+   * i.e. between the first `playAudio` and the `playedStream` of a checkpoint sent after the last one
+   */
+  public get isPlayingAudio(): boolean {
+    if (this.player.isPlaying) return true;
+    if (this.outboundStartedAt === undefined) return false;
+    // While a trailing checkpoint is unacknowledged, allow for Plivo playing behind our estimate
+    const slack = this.trailingCheckpoint !== undefined ? PLAYBACK_ACK_SLACK_MS : 0;
+    return Date.now() < this.outboundEndsAt + slack;
+  }
+
+  /**
+   * Estimated milliseconds of the current outbound audio that have played so far
+   */
+  public get outboundPlayedMs(): number {
+    if (this.outboundStartedAt === undefined) return 0;
+    return Math.max(0, Math.min(Date.now(), this.outboundEndsAt) - this.outboundStartedAt);
+  }
+
+  /**
+   * Estimated milliseconds of outbound audio still to play, including audio queued in `player`
+   */
+  public get outboundRemainingMs(): number {
+    const sent = this.outboundStartedAt === undefined ? 0 : Math.max(0, this.outboundEndsAt - Date.now());
+    return sent + this.player.queuedMs;
+  }
+
+  /**
+   * Whether the underlying WebSocket is open
+   */
+  public get isActive(): boolean {
+    return this.ws.readyState === this.ws.OPEN;
+  }
+
+  /** @internal */
+  public handleStart(event: StartEvent<THeaders>): void {
+    this.startEvent = event;
+    this.logger = this.baseLogger.child({ callId: event.start.callId, streamId: event.start.streamId });
+    this.metrics.recordStart();
+  }
+
+  /** @internal */
+  public handleMedia(event: MediaEvent): void {
+    const mediaFormat = this.mediaFormat;
+    if (this.vad && mediaFormat && event.media.track === this.vad.track) {
+      this.vad.process(event.getPcm16({ mediaFormat }), mediaFormat.sampleRate);
+    }
+  }
+
+  /** @internal */
+  public handlePlayedStream(event: PlayedStreamEvent): void {
+    if (event.name === this.trailingCheckpoint && !this.player.isPlaying) {
+      // Everything sent before this checkpoint has played
+      this.resetOutbound();
+    }
+    this.checkpointAcks.resolve(event.name, event);
+  }
+
+  /** @internal */
+  public handleClearedAudio(event: ClearedAudioEvent): void {
+    this.clearAudioAcks.resolve('', event);
+  }
+
+  /**
+   * Reason the connection is closing or has closed: `remote` unless it was closed from this side
+   */
+  public get closeReason(): CloseReason {
+    return this.closeInfo?.reason ?? this.pendingCloseReason ?? 'remote';
+  }
+
+  /** @internal */
+  public handleClose(info: CloseInfo): void {
+    this.closeInfo = info;
+    this.metrics.recordClose();
+    this.player.clear();
+    this.checkpointAcks.rejectAll((name) => new AckCancelledError('checkpoint', 'closed', name));
+    this.clearAudioAcks.rejectAll(() => new AckCancelledError('clearAudio', 'closed'));
+    this.emit('close', info);
+  }
+
+  // Action methods
+
+  /**
+   * Send audio to this stream
+   * @param contentType - Audio content type (e.g., 'audio/x-l16')
+   * @param sampleRate - Sample rate in Hz
+   * @param payload - Raw audio data as Buffer, Uint8Array, or ArrayBuffer
+   */
+  public playAudio(contentType: string, sampleRate: number, payload: Buffer | Uint8Array | ArrayBuffer) {
+    if (!this.isActive) {
+      this.logger.warn({}, 'Attempted to play audio on a closed WebSocket connection');
+      return;
+    }
+
+    // View the payload as a Buffer without copying it
+    const audio = Buffer.isBuffer(payload)
+      ? payload
+      : payload instanceof ArrayBuffer
+        ? Buffer.from(payload)
+        : Buffer.from(payload.buffer, payload.byteOffset, payload.byteLength);
+    const base64Payload = audio.toString('base64');
+
+    const event: PlayAudioEvent = {
+      event: 'playAudio',
+      media: { contentType, sampleRate, payload: base64Payload },
+    };
+
+    if (this.middleware) {
+      this.send(event);
+    } else {
+      this.transmit(event, encodePlayAudio(contentType, sampleRate, base64Payload));
+    }
+
+    const now = Date.now();
+    if (this.outboundStartedAt === undefined || this.outboundEndsAt <= now) {
+      this.outboundStartedAt = now;
+      this.outboundEndsAt = now;
+    }
+    const playbackStartsAt = this.outboundEndsAt;
+    this.outboundEndsAt += audioDurationMs(audio.length, contentType, sampleRate);
+    this.trailingCheckpoint = undefined;
+
+    if (this.listenerCount('outboundAudio') > 0) {
+      this.emit('outboundAudio', {
+        contentType,
+        sampleRate,
+        // Copied, as the caller may reuse its buffer
+        payload: Buffer.from(audio),
+        playbackStartsAt,
+      });
+    }
+  }
+
+  /**
+   * Send little-endian PCM16 audio at any sample rate to this stream.
+   * The audio is resampled and encoded to the media format negotiated in the start event.
+   * @param pcm - PCM16 audio
+   * @param sampleRate - Sample rate of `pcm` in Hz
+   * @param contentType - Optional expected content type; must match the stream's encoding
+   */
+  public playPcm16(pcm: Buffer, sampleRate: number, contentType?: string) {
+    const mediaFormat = this.mediaFormat;
+    if (!mediaFormat) {
+      throw new AudioFormatError('Media format not available. Wait for the start event.');
+    }
+    if (contentType && parseEncoding(contentType) !== parseEncoding(mediaFormat.encoding)) {
+      throw new AudioFormatError(
+        `Content type ${contentType} does not match the stream's negotiated encoding ${mediaFormat.encoding}`,
+      );
+    }
+
+    this.playAudio(mediaFormat.encoding, mediaFormat.sampleRate, pcm16ToMedia(pcm, sampleRate, mediaFormat));
+  }
+
+  /**
+   * Send a checkpoint event to this stream.
+   * If the `player` still has queued audio, the checkpoint is sent after it.
+   * Resolves with the matching `playedStream` event once the audio before it has played.
+   * Rejects with `AckTimeoutError` or `AckCancelledError`; the result may be safely ignored.
+   */
+  public checkpoint(name: string, options: AckOptions = {}): Promise<PlayedStreamEvent> {
+    const streamId = this.requireStreamId();
+    const timeoutMs = options.timeoutMs ?? this.ackTimeouts.checkpointMs;
+
+    const send = () => {
+      const ack = this.checkpointAcks.add(name, timeoutMs, () => new AckTimeoutError('checkpoint', timeoutMs, name));
+      const event: CheckpointEvent = {
+        event: 'checkpoint',
+        streamId,
+        name,
+      };
+      this.send(event);
+      const sentAt = Date.now();
+      ack.then(() => this.metrics.recordCheckpointRtt(Date.now() - sentAt)).catch(() => {});
+      if (this.outboundStartedAt !== undefined) {
+        this.trailingCheckpoint = name;
+      }
+      return ack;
+    };
+
+    if (!this.player.isPlaying) {
+      return send();
+    }
+
+    let ack: Promise<PlayedStreamEvent> | undefined;
+    const result = this.player
+      .enqueueMarker(() => {
+        ack = send();
+      })
+      .then((sent) => {
+        if (!sent || !ack) {
+          throw new AckCancelledError('checkpoint', this.isActive ? 'cleared' : 'closed', name);
+        }
+        return ack;
+      });
+    result.catch(() => {});
+    return result;
+  }
+
+  /**
+   * Clear all queued audio for this stream, including audio still waiting in `player`.
+   * Resolves with the `clearedAudio` event once Plivo confirms the queue was cleared.
+   * Rejects with `AckTimeoutError` or `AckCancelledError`; the result may be safely ignored.
+   */
+  public clearAudio(options: AckOptions = {}): Promise<ClearedAudioEvent> {
+    const streamId = this.requireStreamId();
+    const timeoutMs = options.timeoutMs ?? this.ackTimeouts.clearAudioMs;
+    this.player.clear();
+    this.resetOutbound();
+    this.emit('outboundCleared', Date.now());
+
+    const ack = this.clearAudioAcks.add('', timeoutMs, () => new AckTimeoutError('clearAudio', timeoutMs));
+    const event: ClearAudioEvent = {
+      event: 'clearAudio',
+      streamId,
+    };
+
+    this.send(event);
+    const sentAt = Date.now();
+    ack.then(() => this.metrics.recordClearAudioLatency(Date.now() - sentAt)).catch(() => {});
+    return ack;
+  }
+
+  /**
+   * Close the underlying WebSocket connection
+   */
+  public close(code?: number, reason?: string) {
+    this.pendingCloseReason ??= 'local';
+    this.ws.close(code, reason);
+  }
+
+  /**
+   * Close the connection on behalf of a liveness check or shutdown; without a code the socket is terminated
+   * @internal
+   */
+  public closeFor(reason: CloseReason, code?: number, message?: string): void {
+    this.pendingCloseReason ??= reason;
+    if (code === undefined) {
+      this.ws.terminate();
+    } else {
+      this.ws.close(code, message);
+    }
+  }
+
+  private send(event: OutboundEvent) {
+    if (this.middleware) {
+      this.middleware.outbound(event, (transformed) => this.transmit(transformed));
+    } else {
+      this.transmit(event);
+    }
+  }
+
+  private transmit(event: OutboundEvent, data?: string) {
+    // Middleware may have delayed the event past the close
+    if (!this.isActive) return;
+    this.ws.send(data ?? JSON.stringify(event));
+    this.capture?.outbound(event);
+    if (event.event === 'playAudio') {
+      this.metrics.recordMedia('outbound', Buffer.byteLength(event.media.payload, 'base64'));
+    }
+  }
+
+  private resetOutbound() {
+    this.outboundStartedAt = undefined;
+    this.outboundEndsAt = 0;
+    this.trailingCheckpoint = undefined;
+  }
+
+  private requireStreamId(): string {
+    if (!this.isActive) {
+      throw new Error('WebSocket is not connected');
+    }
+    if (!this.streamId) {
+      throw new Error('Stream ID not available. Wait for the start event.');
+    }
+    return this.streamId;
+  }
+}
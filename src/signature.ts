@@ -0,0 +1,162 @@
+import type { IncomingMessage } from 'http';
+import type { ServerOptions, VerifyClientCallbackSync } from 'ws';
+import { validateV3Signature } from 'plivo';
+import type { Logger } from './logger.js';
+
+export interface NonceCacheOptions {
+  /** Maximum number of nonces remembered; the oldest are forgotten first (default: 10000) */
+  maxSize?: number;
+  /** Forget nonces after this many milliseconds (default: 300000, 0 keeps them until evicted by `maxSize`) */
+  ttlMs?: number;
+}
+
+export interface SignatureVerifierOptions {
+  /** Auth tokens accepted for V3 signatures; list several while rotating tokens */
+  authTokens: string[];
+  /** Rebuild the signed URL from `X-Forwarded-Proto` / `X-Forwarded-Host` set by a trusted proxy (default: false) */
+  trustProxy?: boolean;
+  /** Reject signatures whose nonce was already seen, or `false` to disable (default: enabled) */
+  nonceCache?: NonceCacheOptions | false;
+}
+
+export interface SignatureCheck {
+  valid: boolean;
+  /** Why the signature was rejected */
+  reason?: 'missing' | 'invalid' | 'replayed';
+}
+
+/**
+ * Bounded set of recently seen nonces
+ */
+export class NonceCache {
+  public readonly maxSize: number;
+  public readonly ttlMs: number;
+  private seen = new Map<string, number>();
+
+  constructor(options: NonceCacheOptions = {}) {
+    this.maxSize = options.maxSize ?? 10000;
+    this.ttlMs = options.ttlMs ?? 300000;
+  }
+
+  public get size(): number {
+    return this.seen.size;
+  }
+
+  /**
+   * Record a nonce, returning false if it was already seen
+   */
+  public add(nonce: string, now = Date.now()): boolean {
+    const seenAt = this.seen.get(nonce);
+    if (seenAt !== undefined && !this.expired(seenAt, now)) {
+      return false;
+    }
+    this.seen.delete(nonce);
+    this.seen.set(nonce, now);
+    for (const [oldest, at] of this.seen) {
+      if (this.seen.size <= this.maxSize && !this.expired(at, now)) break;
+      this.seen.delete(oldest);
+    }
+    return true;
+  }
+
+  private expired(seenAt: number, now: number): boolean {
+    return this.ttlMs > 0 && now - seenAt >= this.ttlMs;
+  }
+}
+
+/**
+ * Verifies Plivo V3 signatures on WebSocket upgrade requests
+ */
+export class SignatureVerifier {
+  public readonly trustProxy: boolean;
+  private readonly authTokens: string[];
+  private readonly nonces?: NonceCache;
+
+  constructor(options: SignatureVerifierOptions) {
+    if (options.authTokens.length === 0) {
+      throw new Error('At least one auth token is required for signature validation');
+    }
+    this.authTokens = options.authTokens;
+    this.trustProxy = options.trustProxy ?? false;
+    this.nonces = options.nonceCache === false ? undefined : new NonceCache(options.nonceCache);
+  }
+
+  /**
+   * Check the request's `X-Plivo-Signature-V3` headers against the configured auth tokens
+   */
+  public verify(request: IncomingMessage): SignatureCheck {
+    // The signature header may list several comma-separated signatures; validateV3Signature checks each
+    const signature = header(request, 'x-plivo-signature-v3');
+    const nonce = header(request, 'x-plivo-signature-v3-nonce');
+    if (!signature || !nonce) {
+      return { valid: false, reason: 'missing' };
+    }
+
+    const uri = this.signedUri(request);
+    const method = request.method ?? 'GET';
+    const matches = this.authTokens.some((token) => {
+      try {
+        // Coerce Boolean wrapper to primitive boolean
+        return !!validateV3Signature(method, uri, nonce, token, signature);
+      } catch {
+        return false;
+      }
+    });
+    if (!matches) {
+      return { valid: false, reason: 'invalid' };
+    }
+    if (this.nonces && !this.nonces.add(nonce)) {
+      return { valid: false, reason: 'replayed' };
+    }
+    return { valid: true };
+  }
+
+  /**
+   * The URL Plivo signed, as seen from the client's side of any trusted proxy
+   */
+  public signedUri(request: IncomingMessage): string {
+    // Proxy chains append their values; the first is the client-facing one
+    const forwardedProto = this.trustProxy ? header(request, 'x-forwarded-proto')?.split(',')[0]?.trim() : undefined;
+    const forwardedHost = this.trustProxy ? header(request, 'x-forwarded-host')?.split(',')[0]?.trim() : undefined;
+    const encrypted = (request.socket as { encrypted?: boolean } | undefined)?.encrypted;
+
+    let protocol = forwardedProto?.toLowerCase() || (encrypted ? 'https' : 'http');
+    if (protocol === 'wss') protocol = 'https';
+    if (protocol === 'ws') protocol = 'http';
+    const host = forwardedHost || request.headers.host || '';
+    return `${protocol}://${host}${request.url || '/'}`;
+  }
+}
+
+function header(request: IncomingMessage, name: string): string | undefined {
+  const value = request.headers[name];
+  return (Array.isArray(value) ? value[0] : value) || undefined;
+}
+
+/**
+ * Build a `ws` `verifyClient` that rejects upgrades without a valid signature with HTTP 403,
+ * then defers to `next` if given. `onReject` is called with the reason for each rejection.
+ */
+export function createVerifyClient(
+  verifier: SignatureVerifier,
+  next?: ServerOptions['verifyClient'],
+  logger?: Logger,
+  onReject?: (reason: NonNullable<SignatureCheck['reason']>) => void,
+): NonNullable<ServerOptions['verifyClient']> {
+  return (info, callback) => {
+    const check = verifier.verify(info.req);
+    if (!check.valid) {
+      logger?.warn({ reason: check.reason, url: info.req.url }, 'V3 signature validation failed');
+      onReject?.(check.reason!);
+      callback(false, 403, 'Forbidden');
+      return;
+    }
+    if (!next) {
+      callback(true);
+    } else if (next.length >= 2) {
+      next(info, callback);
+    } else {
+      callback((next as VerifyClientCallbackSync)(info));
+    }
+  };
+}
@@ -0,0 +1,447 @@
+import { WebSocket } from 'ws';
+import { createHmac, randomUUID } from 'crypto';
+import type { ClearedAudioEvent, DTMFEvent, MediaFormat, PlayedStreamEvent, RawStartEvent } from './types.js';
+import {
+  alawToPcm16,
+  audioDurationMs,
+  bytesPerSample,
+  decodeToPcm16,
+  mulawToPcm16,
+  parseEncoding,
+  pcm16ToMedia,
+  resamplePcm16,
+} from './audio.js';
+import { AudioFormatError, PlivoStreamError } from './errors.js';
+import { TypedEmitter } from './emitter.js';
+import { parseWav } from './wav.js';
+
+export interface SimulatorStartOptions {
+  /** Call UUID (default: random) */
+  callId?: string;
+  /** Stream UUID (default: random) */
+  streamId?: string;
+  accountId?: string;
+  /** Tracks announced in the start event (default: ['inbound']) */
+  tracks?: string[];
+  /** Encoding and sample rate of the stream (default: mu-law at 8000 Hz) */
+  mediaFormat?: MediaFormat;
+  /** Raw `extra_headers` string sent with every event (default: '') */
+  extraHeaders?: string;
+}
+
+export interface PlivoStreamSimulatorOptions extends SimulatorStartOptions {
+  /** Sign the connection with `X-Plivo-Signature-V3` headers using this auth token */
+  authToken?: string;
+  /** Additional HTTP headers for the WebSocket upgrade request */
+  headers?: Record<string, string>;
+  /** Duration of each media event, in milliseconds (default: 20) */
+  frameMs?: number;
+}
+
+export interface SendAudioOptions {
+  /**
+   * Sample rate of raw PCM16 input (default: the stream's sample rate). Ignored for WAV input,
+   * which carries its own format.
+   */
+  sampleRate?: number;
+  /** Media track to send on (default: 'inbound') */
+  track?: string;
+  /** Pace media events in real time (default: true); `false` sends them back to back */
+  realtime?: boolean;
+}
+
+export interface ReceivedAudio {
+  contentType: string;
+  sampleRate: number;
+  /** Decoded (raw) audio */
+  payload: Buffer;
+  /** When the audio was received, in milliseconds since epoch */
+  receivedAt: number;
+  /** When the audio starts / started playing on the simulated call, in milliseconds since epoch */
+  playbackStartsAt: number;
+  durationMs: number;
+  /** Whether `clearAudio` discarded (part of) this audio before it played */
+  cleared: boolean;
+}
+
+export type SimulatorEventMap = {
+  /** Audio received from the server */
+  playAudio: [audio: ReceivedAudio];
+  /** Checkpoint received from the server */
+  checkpoint: [name: string];
+  /** `playedStream` sent back for a checkpoint */
+  playedStream: [name: string];
+  /** clearAudio received from the server */
+  clearAudio: [];
+  /** Any message received from the server, parsed */
+  message: [message: any];
+  error: [error: Error];
+  close: [code: number, reason: string];
+};
+
+/**
+ * Raised by `PlivoStreamSimulator.waitFor` when the awaited event does not arrive in time
+ */
+export class SimulatorTimeoutError extends PlivoStreamError {}
+
+/**
+ * Compute Plivo's V3 signature for a URL and nonce
+ */
+export function signV3(uri: string, nonce: string, authToken: string): string {
+  const url = new URL(uri);
+  const params = [...url.searchParams.entries()].map(([key, value]) => `${key}=${value}`).sort();
+  const baseUrl = `${url.protocol}//${url.host}${url.pathname}${params.length > 0 ? `?${params.join('&')}` : ''}`;
+  return createHmac('sha256', authToken).update(`${baseUrl}.${nonce}`).digest('base64');
+}
+
+/**
+ * Stand-in for Plivo in integration tests: connects to a local `PlivoWebSocketServer`,
+ * sends a schema-valid `start` event, streams audio as paced `media` events and injects
+ * DTMF. On the return path it collects `playAudio` audio, answers each `checkpoint` with
+ * `playedStream` once the audio queued before it would have played, and answers
+ * `clearAudio` with `clearedAudio`. Checkpoints still pending when audio is cleared are
+ * acknowledged immediately.
+ */
+export class PlivoStreamSimulator extends TypedEmitter<SimulatorEventMap> {
+  public readonly callId: string;
+  public readonly streamId: string;
+  public readonly accountId: string;
+  public readonly tracks: string[];
+  public readonly mediaFormat: MediaFormat;
+  public readonly frameMs: number;
+  /** Audio received from the server, in order */
+  public readonly receivedAudio: ReceivedAudio[] = [];
+  /** Checkpoint names acknowledged with `playedStream`, in order */
+  public readonly playedCheckpoints: string[] = [];
+
+  private ws?: WebSocket;
+  private sequenceNumber = 0;
+  private chunks = new Map<string, number>();
+  private startedAt = 0;
+  private playbackEndsAt = 0;
+  /** Checkpoints awaiting `playedStream`, keyed by arrival so repeated names each get their own timer */
+  private pendingCheckpoints = new Map<number, { name: string; timer: ReturnType<typeof setTimeout> }>();
+  private nextCheckpointId = 0;
+
+  constructor(
+    public readonly url: string,
+    private readonly options: PlivoStreamSimulatorOptions = {},
+  ) {
+    super();
+    this.callId = options.callId ?? randomUUID();
+    this.streamId = options.streamId ?? randomUUID();
+    this.accountId = options.accountId ?? 'MA_SIMULATOR';
+    this.tracks = options.tracks ?? ['inbound'];
+    this.mediaFormat = options.mediaFormat ?? { encoding: 'audio/x-mulaw', sampleRate: 8000 };
+    this.frameMs = options.frameMs ?? 20;
+  }
+
+  /**
+   * Whether the connection is open
+   */
+  public get isOpen(): boolean {
+    return this.ws?.readyState === WebSocket.OPEN;
+  }
+
+  /**
+   * Milliseconds of received audio that has not played yet
+   */
+  public get queuedMs(): number {
+    return Math.max(0, this.playbackEndsAt - Date.now());
+  }
+
+  /**
+   * Open the connection and send the `start` event
+   */
+  public async connect(): Promise<void> {
+    if (this.ws) {
+      throw new PlivoStreamError('PlivoStreamSimulator is already connected');
+    }
+    const headers: Record<string, string> = { ...this.options.headers };
+    if (this.options.authToken) {
+      const nonce = randomUUID().replace(/-/g, '');
+      const signedUrl = this.url.replace(/^ws/, 'http');
+      headers['X-Plivo-Signature-V3'] = signV3(signedUrl, nonce, this.options.authToken);
+      headers['X-Plivo-Signature-V3-Nonce'] = nonce;
+    }
+
+    const ws = new WebSocket(this.url, { headers });
+    this.ws = ws;
+    ws.on('message', (data) => this.handleMessage(data.toString()));
+    ws.on('error', (error) => this.emit('error', error));
+    ws.on('close', (code, reason) => {
+      this.pendingCheckpoints.forEach(({ timer }) => clearTimeout(timer));
+      this.pendingCheckpoints.clear();
+      this.emit('close', code, reason.toString());
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      ws.once('open', () => resolve());
+      ws.once('close', (code, reason) =>
+        reject(new PlivoStreamError(`Connection closed before opening (${code} ${reason.toString()})`)),
+      );
+      ws.once('error', reject);
+    });
+
+    this.startedAt = Date.now();
+    const start: RawStartEvent = {
+      event: 'start',
+      sequenceNumber: this.nextSequenceNumber(),
+      start: {
+        callId: this.callId,
+        streamId: this.streamId,
+        accountId: this.accountId,
+        tracks: this.tracks,
+        mediaFormat: this.mediaFormat,
+      },
+      extra_headers: this.options.extraHeaders ?? '',
+    };
+    this.send(start);
+  }
+
+  /**
+   * Stream audio as `media` events in the stream's encoding. Accepts a WAV file (PCM16,
+   * mu-law or A-law; multi-channel files are mixed down) or raw little-endian PCM16.
+   * Resolves once every frame has been sent.
+   */
+  public async sendAudio(audio: Buffer, options: SendAudioOptions = {}): Promise<void> {
+    const { pcm, sampleRate } = this.toPcm16(audio, options.sampleRate);
+    const media = pcm16ToMedia(pcm, sampleRate, this.mediaFormat);
+    const samplesPerFrame = Math.max(1, Math.round((this.mediaFormat.sampleRate * this.frameMs) / 1000));
+    const frameBytes = samplesPerFrame * bytesPerSample(parseEncoding(this.mediaFormat.encoding));
+    const track = options.track ?? 'inbound';
+    const realtime = options.realtime ?? true;
+    const startedAt = Date.now();
+
+    for (let offset = 0, frame = 0; offset < media.length; offset += frameBytes, frame++) {
+      if (realtime) {
+        const delay = startedAt + frame * this.frameMs - Date.now();
+        if (delay > 0) {
+          await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+      }
+      if (!this.isOpen) {
+        throw new PlivoStreamError('Connection closed while sending audio');
+      }
+      this.sendMedia(media.subarray(offset, offset + frameBytes), track);
+    }
+  }
+
+  /**
+   * Send a single `media` event with audio already in the stream's encoding
+   */
+  public sendMedia(payload: Buffer, track = 'inbound'): void {
+    const chunk = (this.chunks.get(track) ?? 0) + 1;
+    this.chunks.set(track, chunk);
+    this.send({
+      sequenceNumber: this.nextSequenceNumber(),
+      streamId: this.streamId,
+      event: 'media',
+      media: {
+        track,
+        timestamp: String(Date.now() - this.startedAt),
+        chunk,
+        payload: payload.toString('base64'),
+      },
+      extra_headers: this.options.extraHeaders ?? '',
+    });
+  }
+
+  /**
+   * Send a `dtmf` event
+   */
+  public sendDtmf(digit: string, track = 'inbound'): void {
+    const event: DTMFEvent = {
+      event: 'dtmf',
+      sequenceNumber: this.nextSequenceNumber(),
+      streamId: this.streamId,
+      dtmf: { track, digit, timestamp: String(Date.now() - this.startedAt) },
+      extra_headers: this.options.extraHeaders ?? '',
+    };
+    this.send(event);
+  }
+
+  /**
+   * All audio received so far, decoded to PCM16 and resampled to `sampleRate`
+   * (default: the stream's sample rate)
+   */
+  public receivedPcm16(sampleRate = this.mediaFormat.sampleRate): Buffer {
+    return Buffer.concat(
+      this.receivedAudio.map((audio) =>
+        resamplePcm16(decodeToPcm16(audio.payload, audio.contentType), audio.sampleRate, sampleRate),
+      ),
+    );
+  }
+
+  /**
+   * Wait for the next event matching `predicate`
+   */
+  public waitFor<K extends keyof SimulatorEventMap>(
+    event: K,
+    predicate: (...args: SimulatorEventMap[K]) => boolean = () => true,
+    timeoutMs = 5000,
+  ): Promise<SimulatorEventMap[K]> {
+    return new Promise((resolve, reject) => {
+      const listener = (...args: SimulatorEventMap[K]) => {
+        if (!predicate(...args)) return;
+        clearTimeout(timer);
+        this.off(event, listener);
+        resolve(args);
+      };
+      const timer = setTimeout(() => {
+        this.off(event, listener);
+        reject(new SimulatorTimeoutError(`Timed out after ${timeoutMs}ms waiting for '${String(event)}'`));
+      }, timeoutMs);
+      this.on(event, listener);
+    });
+  }
+
+  /**
+   * Close the connection, resolving once it is closed
+   */
+  public async close(code = 1000, reason = ''): Promise<void> {
+    const ws = this.ws;
+    if (!ws || ws.readyState === WebSocket.CLOSED) return;
+    await new Promise<void>((resolve) => {
+      ws.once('close', () => resolve());
+      ws.close(code, reason);
+    });
+  }
+
+  private handleMessage(raw: string) {
+    let message: any;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      this.emit('error', new PlivoStreamError(`Received non-JSON message: ${raw.slice(0, 100)}`));
+      return;
+    }
+    this.emit('message', message);
+
+    switch (message?.event) {
+      case 'playAudio':
+        this.handlePlayAudio(message.media);
+        break;
+      case 'checkpoint':
+        this.handleCheckpoint(String(message.name));
+        break;
+      case 'clearAudio':
+        this.handleClearAudio();
+        break;
+    }
+  }
+
+  private handlePlayAudio(media: { contentType: string; sampleRate: number; payload: string }) {
+    const payload = Buffer.from(media.payload, 'base64');
+    let durationMs: number;
+    try {
+      durationMs = audioDurationMs(payload.length, media.contentType, media.sampleRate);
+    } catch (error) {
+      this.emit('error', error instanceof Error ? error : new Error(String(error)));
+      return;
+    }
+    const now = Date.now();
+    const playbackStartsAt = Math.max(now, this.playbackEndsAt);
+    this.playbackEndsAt = playbackStartsAt + durationMs;
+
+    const audio: ReceivedAudio = {
+      contentType: media.contentType,
+      sampleRate: media.sampleRate,
+      payload,
+      receivedAt: now,
+      playbackStartsAt,
+      durationMs,
+      cleared: false,
+    };
+    this.receivedAudio.push(audio);
+    this.emit('playAudio', audio);
+  }
+
+  private handleCheckpoint(name: string) {
+    this.emit('checkpoint', name);
+    const id = this.nextCheckpointId++;
+    const timer = setTimeout(() => this.ackCheckpoint(id), this.queuedMs);
+    this.pendingCheckpoints.set(id, { name, timer });
+  }
+
+  private handleClearAudio() {
+    this.emit('clearAudio');
+    const now = Date.now();
+    for (const audio of this.receivedAudio) {
+      if (audio.playbackStartsAt + audio.durationMs > now) {
+        audio.cleared = true;
+      }
+    }
+    this.playbackEndsAt = now;
+    for (const [id, { timer }] of [...this.pendingCheckpoints]) {
+      clearTimeout(timer);
+      this.ackCheckpoint(id);
+    }
+
+    const event: ClearedAudioEvent = {
+      event: 'clearedAudio',
+      sequenceNumber: this.nextSequenceNumber(),
+      streamId: this.streamId,
+    };
+    this.send(event);
+  }
+
+  private ackCheckpoint(id: number) {
+    const pending = this.pendingCheckpoints.get(id);
+    if (!pending) return;
+    this.pendingCheckpoints.delete(id);
+    if (!this.isOpen) return;
+    const { name } = pending;
+    const event: PlayedStreamEvent = {
+      event: 'playedStream',
+      sequenceNumber: this.nextSequenceNumber(),
+      streamId: this.streamId,
+      name,
+    };
+    this.send(event);
+    this.playedCheckpoints.push(name);
+    this.emit('playedStream', name);
+  }
+
+  private toPcm16(audio: Buffer, rawSampleRate?: number): { pcm: Buffer; sampleRate: number } {
+    if (audio.length < 12 || audio.toString('ascii', 0, 4) !== 'RIFF') {
+      return { pcm: audio, sampleRate: rawSampleRate ?? this.mediaFormat.sampleRate };
+    }
+
+    const wav = parseWav(audio);
+    let pcm: Buffer;
+    if (wav.format === 1 && wav.bitsPerSample === 16) {
+      pcm = wav.data;
+    } else if (wav.format === 7 && wav.bitsPerSample === 8) {
+      pcm = mulawToPcm16(wav.data);
+    } else if (wav.format === 6 && wav.bitsPerSample === 8) {
+      pcm = alawToPcm16(wav.data);
+    } else {
+      throw new AudioFormatError(`Unsupported WAV format ${wav.format} with ${wav.bitsPerSample} bits per sample`);
+    }
+    if (wav.channels > 1) {
+      const frames = Math.floor(pcm.length / 2 / wav.channels);
+      const mono = Buffer.alloc(frames * 2);
+      for (let i = 0; i < frames; i++) {
+        let sum = 0;
+        for (let c = 0; c < wav.channels; c++) {
+          sum += pcm.readInt16LE((i * wav.channels + c) * 2);
+        }
+        mono.writeInt16LE(Math.round(sum / wav.channels), i * 2);
+      }
+      pcm = mono;
+    }
+    return { pcm, sampleRate: wav.sampleRate };
+  }
+
+  private nextSequenceNumber(): number {
+    return ++this.sequenceNumber;
+  }
+
+  private send(event: object) {
+    if (!this.isOpen) {
+      throw new PlivoStreamError('PlivoStreamSimulator is not connected');
+    }
+    this.ws!.send(JSON.stringify(event));
+  }
+}
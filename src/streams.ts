@@ -0,0 +1,180 @@
+import { Readable, Writable } from 'stream';
+import type { PlivoStreamSession } from './session.js';
+import type { MediaEvent } from './types.js';
+import { pcm16ToMedia } from './audio.js';
+import { AudioFormatError } from './errors.js';
+
+export type AudioStreamFormat = 'raw' | 'pcm16';
+
+export interface InboundAudioOptions {
+  /** Media track carrying the caller's audio (default: 'inbound') */
+  track?: string;
+  /** `raw` audio in the stream's encoding (default), or little-endian `pcm16` */
+  format?: AudioStreamFormat;
+  /** With `pcm16`, resample to this rate in Hz (default: the stream's sample rate) */
+  sampleRate?: number;
+  /** Drop frames while this many are buffered and unread (default: 500, 10 seconds of 20 ms frames) */
+  maxBufferedFrames?: number;
+}
+
+export interface OutboundAudioOptions {
+  /** `raw` audio in `contentType` (default), or little-endian `pcm16` transcoded to the stream's media format */
+  format?: AudioStreamFormat;
+  /** Content type of raw chunks (default: the stream's encoding) */
+  contentType?: string;
+  /** Sample rate of written chunks in Hz (default: the stream's sample rate) */
+  sampleRate?: number;
+  /**
+   * Send through the session's paced `player` (default: true); a write completes once its audio has been sent.
+   * Otherwise each chunk is sent immediately as one `playAudio` event.
+   */
+  paced?: boolean;
+}
+
+/**
+ * A session's inbound audio as a `Readable` (and so an `AsyncIterable<Buffer>`), one chunk per media frame.
+ * Ends when the connection closes. Live audio cannot wait for a slow reader, so frames are dropped
+ * (and counted in `dropped`) while `maxBufferedFrames` are unread.
+ */
+export class InboundAudioStream extends Readable {
+  /** Frames dropped because the reader fell behind */
+  public dropped = 0;
+
+  private readonly track: string;
+  private readonly format: AudioStreamFormat;
+  private readonly sampleRate?: number;
+  private readonly maxBufferedFrames: number;
+
+  private readonly onMedia = (event: MediaEvent) => this.handleMedia(event);
+  private readonly onClose = () => {
+    this.detach();
+    this.push(null);
+  };
+
+  constructor(
+    private readonly session: PlivoStreamSession<any, any>,
+    options: InboundAudioOptions = {},
+  ) {
+    // Object mode keeps frames apart instead of concatenating whatever is buffered
+    super({ objectMode: true });
+    this.track = options.track ?? 'inbound';
+    this.format = options.format ?? 'raw';
+    this.sampleRate = options.sampleRate;
+    this.maxBufferedFrames = options.maxBufferedFrames ?? 500;
+    if (session.closeInfo) {
+      this.push(null);
+      return;
+    }
+    session.on('media', this.onMedia);
+    session.on('close', this.onClose);
+  }
+
+  override _read(): void {
+    // Frames are pushed as they arrive
+  }
+
+  override _destroy(error: Error | null, callback: (error?: Error | null) => void): void {
+    this.detach();
+    callback(error);
+  }
+
+  private handleMedia(event: MediaEvent) {
+    if (event.media.track !== this.track) return;
+    if (this.readableLength >= this.maxBufferedFrames) {
+      this.dropped++;
+      return;
+    }
+    let chunk: Buffer;
+    try {
+      chunk = this.format === 'pcm16' ? event.getPcm16({ sampleRate: this.sampleRate }) : event.getRawMedia();
+    } catch (error) {
+      this.destroy(error instanceof Error ? error : new Error(String(error)));
+      return;
+    }
+    this.push(chunk);
+  }
+
+  private detach() {
+    this.session.off('media', this.onMedia);
+    this.session.off('close', this.onClose);
+  }
+}
+
+/**
+ * A `Writable` that sends the audio written to it to the session as `playAudio` events,
+ * so `ttsStream.pipe(session.outbound)` plays a TTS stream. It is destroyed when the connection closes.
+ */
+export class OutboundAudioStream extends Writable {
+  private readonly format: AudioStreamFormat;
+  private readonly contentType?: string;
+  private readonly sampleRate?: number;
+  private readonly paced: boolean;
+  /** Trailing odd byte of PCM16 input, completed by the next chunk */
+  private remainder?: Buffer;
+
+  private readonly onClose = () => this.destroy();
+
+  constructor(
+    private readonly session: PlivoStreamSession<any, any>,
+    options: OutboundAudioOptions = {},
+  ) {
+    super();
+    this.format = options.format ?? 'raw';
+    this.contentType = options.contentType;
+    this.sampleRate = options.sampleRate;
+    this.paced = options.paced ?? true;
+    if (session.closeInfo) {
+      this.destroy();
+      return;
+    }
+    session.on('close', this.onClose);
+  }
+
+  override _write(chunk: Buffer, _encoding: BufferEncoding, callback: (error?: Error | null) => void): void {
+    let frame: { contentType: string; sampleRate: number; audio: Buffer } | undefined;
+    try {
+      frame = this.encode(chunk);
+    } catch (error) {
+      callback(error instanceof Error ? error : new Error(String(error)));
+      return;
+    }
+    if (!frame) {
+      callback();
+    } else if (this.paced) {
+      this.session.player.enqueue(frame.contentType, frame.sampleRate, frame.audio).then(() => callback(), callback);
+    } else {
+      this.session.playAudio(frame.contentType, frame.sampleRate, frame.audio);
+      callback();
+    }
+  }
+
+  override _destroy(error: Error | null, callback: (error?: Error | null) => void): void {
+    this.session.off('close', this.onClose);
+    callback(error);
+  }
+
+  private encode(chunk: Buffer) {
+    const mediaFormat = this.session.mediaFormat;
+    if (this.format === 'raw') {
+      const contentType = this.contentType ?? mediaFormat?.encoding;
+      const sampleRate = this.sampleRate ?? mediaFormat?.sampleRate;
+      if (!contentType || !sampleRate) {
+        throw new AudioFormatError('Media format not available. Wait for the start event.');
+      }
+      return { contentType, sampleRate, audio: chunk };
+    }
+
+    if (!mediaFormat) {
+      throw new AudioFormatError('Media format not available. Wait for the start event.');
+    }
+    let pcm = this.remainder ? Buffer.concat([this.remainder, chunk]) : chunk;
+    this.remainder = undefined;
+    if (pcm.length % 2 !== 0) {
+      this.remainder = Buffer.from(pcm.subarray(pcm.length - 1));
+      pcm = pcm.subarray(0, pcm.length - 1);
+    }
+    if (pcm.length === 0) return undefined;
+    const audio = pcm16ToMedia(pcm, this.sampleRate ?? mediaFormat.sampleRate, mediaFormat);
+    return { contentType: mediaFormat.encoding, sampleRate: mediaFormat.sampleRate, audio };
+  }
+}
@@ -0,0 +1,99 @@
+import type { Cluster } from 'cluster';
+import type { RoutingMessage, RoutingTransport } from './routing.js';
+
+/**
+ * Routing transport for several servers in one process (tests, or one server per port).
+ * Share a single instance between their routers.
+ */
+export class InMemoryTransport implements RoutingTransport {
+  private handlers = new Set<(message: RoutingMessage) => void>();
+
+  public publish(message: RoutingMessage): void {
+    // Deliver asynchronously, like a network transport would
+    const copy = JSON.parse(JSON.stringify(message)) as RoutingMessage;
+    setImmediate(() => {
+      for (const handler of this.handlers) {
+        handler(copy);
+      }
+    });
+  }
+
+  public subscribe(handler: (message: RoutingMessage) => void): () => void {
+    this.handlers.add(handler);
+    return () => this.handlers.delete(handler);
+  }
+}
+
+/** Key marking routing messages among other IPC traffic */
+const IPC_KEY = '__plivoStreamRouting';
+
+interface IpcEnvelope {
+  [IPC_KEY]: RoutingMessage;
+}
+
+function isEnvelope(value: unknown): value is IpcEnvelope {
+  return typeof value === 'object' && value !== null && IPC_KEY in value;
+}
+
+/**
+ * Routing transport over the Node IPC channel of a cluster worker or forked child process.
+ * The primary process must forward messages between its workers with `relayIpcRouting`.
+ */
+export class IpcTransport implements RoutingTransport {
+  constructor(private readonly channel: NodeJS.Process = process) {
+    if (!channel.send) {
+      throw new Error('IpcTransport requires a process with an IPC channel (a cluster worker or forked child)');
+    }
+  }
+
+  public publish(message: RoutingMessage): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.channel.send!({ [IPC_KEY]: message } satisfies IpcEnvelope, undefined, {}, (error) =>
+        error ? reject(error) : resolve(),
+      );
+    });
+  }
+
+  public subscribe(handler: (message: RoutingMessage) => void): () => void {
+    const listener = (value: unknown) => {
+      if (isEnvelope(value)) handler(value[IPC_KEY]);
+    };
+    this.channel.on('message', listener);
+    return () => this.channel.off('message', listener);
+  }
+}
+
+/**
+ * In the cluster primary, forward routing messages from each worker to every other worker.
+ * When a worker exits, the others are told to forget the streams it still held.
+ * Returns a function that stops relaying.
+ */
+export function relayIpcRouting(cluster: Cluster): () => void {
+  /** Router node ids seen from each worker */
+  const nodes = new Map<number, Set<string>>();
+  const forward = (senderId: number, value: IpcEnvelope) => {
+    for (const worker of Object.values(cluster.workers ?? {})) {
+      if (worker && worker.id !== senderId && worker.isConnected()) {
+        worker.send(value);
+      }
+    }
+  };
+  const listener = (sender: { id: number }, value: unknown) => {
+    if (!isEnvelope(value)) return;
+    const from = value[IPC_KEY].from;
+    nodes.set(sender.id, (nodes.get(sender.id) ?? new Set()).add(from));
+    forward(sender.id, value);
+  };
+  const onExit = (worker: { id: number }) => {
+    for (const from of nodes.get(worker.id) ?? []) {
+      forward(worker.id, { [IPC_KEY]: { type: 'leave', from } });
+    }
+    nodes.delete(worker.id);
+  };
+  cluster.on('message', listener);
+  cluster.on('exit', onExit);
+  return () => {
+    cluster.off('message', listener);
+    cluster.off('exit', onExit);
+  };
+}
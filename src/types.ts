@@ -1,4 +1,7 @@
 import { z } from 'zod';
+import { mediaToPcm16, type Pcm16Options } from './audio.js';
+import { AudioFormatError } from './errors.js';
+import { parseExtraHeaders, type ExtraHeaders } from './headers.js';
 
 export enum IncomingEventEnum {
   START = 'start',
@@ -29,12 +32,23 @@ const StartEventDataSchema = z.object({
   }),
 });
 
-export const StartEventSchema = z.object({
-  event: z.literal('start'),
-  sequenceNumber: z.number(),
-  start: StartEventDataSchema,
-  extra_headers: z.string(),
-});
+/** @internal */
+export function toStartEvent<T extends { extra_headers: string }>(data: T) {
+  return {
+    ...data,
+    /** `extra_headers` parsed into a record (validated against the server's `headersSchema`, if any) */
+    headers: parseExtraHeaders(data.extra_headers) as ExtraHeaders,
+  };
+}
+
+export const StartEventSchema = z
+  .object({
+    event: z.literal('start'),
+    sequenceNumber: z.number(),
+    start: StartEventDataSchema,
+    extra_headers: z.string(),
+  })
+  .transform(toStartEvent);
 
 const MediaEventDataSchema = z.object({
   track: z.string(),
@@ -43,6 +57,56 @@ const MediaEventDataSchema = z.object({
   payload: z.string(),
 });
 
+/** Media event as sent on the wire */
+export interface MediaEventData {
+  event: 'media';
+  sequenceNumber: number;
+  streamId: string;
+  media: z.infer<typeof MediaEventDataSchema>;
+  extra_headers: string;
+}
+
+/**
+ * A parsed media event. Methods live on the prototype, so no closures are allocated per frame,
+ * and the decoded payload is cached until `media.payload` changes.
+ */
+export class MediaFrame implements MediaEventData {
+  declare event: 'media';
+  declare sequenceNumber: number;
+  declare streamId: string;
+  declare media: MediaEventData['media'];
+  declare extra_headers: string;
+  /** Media format of the stream, attached by the server from the start event */
+  public mediaFormat?: MediaFormat = undefined;
+  /** True for silence frames synthesised by the jitter buffer in place of lost frames */
+  public synthetic = false;
+  #decoded?: Buffer;
+  #decodedFrom?: string;
+
+  constructor(data: MediaEventData) {
+    Object.assign(this, data);
+  }
+
+  /** Decode base64 payload to raw audio Buffer (cached; copy it before modifying) */
+  public getRawMedia(): Buffer {
+    const payload = this.media.payload;
+    if (this.#decoded === undefined || this.#decodedFrom !== payload) {
+      this.#decoded = Buffer.from(payload, 'base64');
+      this.#decodedFrom = payload;
+    }
+    return this.#decoded;
+  }
+
+  /** Decode payload to little-endian PCM16 according to the stream's media format */
+  public getPcm16(options: Pcm16Options = {}): Buffer {
+    const mediaFormat = options.mediaFormat ?? this.mediaFormat;
+    if (!mediaFormat) {
+      throw new AudioFormatError('Media format not available. Wait for the start event.');
+    }
+    return mediaToPcm16(this.getRawMedia(), mediaFormat, options.sampleRate);
+  }
+}
+
 export const MediaEventSchema = z
   .object({
     sequenceNumber: z.number(),
@@ -51,13 +115,7 @@ export const MediaEventSchema = z
     media: MediaEventDataSchema,
     extra_headers: z.string(),
   })
-  .transform((data) => ({
-    ...data,
-    /** Decode base64 payload to raw audio Buffer */
-    getRawMedia(): Buffer {
-      return Buffer.from(data.media.payload, 'base64');
-    },
-  }));
+  .transform((data) => new MediaFrame(data));
 
 const DTMFEventDataSchema = z.object({
   track: z.string(),
@@ -108,11 +166,38 @@ const ClearAudioEventSchema = z.object({
   streamId: z.uuid(),
 });
 
-export type StartEvent = z.infer<typeof StartEventSchema>;
-export type MediaEvent = z.infer<typeof MediaEventSchema>;
+export type StartEvent<THeaders extends object = ExtraHeaders> = Omit<z.infer<typeof StartEventSchema>, 'headers'> & {
+  headers: THeaders;
+};
+/** Start event as sent on the wire, before parsing */
+export type RawStartEvent = z.input<typeof StartEventSchema>;
+export type MediaEvent = MediaFrame;
 export type DTMFEvent = z.infer<typeof DTMFEventSchema>;
 export type PlayedStreamEvent = z.infer<typeof PlayedStreamEventSchema>;
 export type ClearedAudioEvent = z.infer<typeof ClearedAudioEventSchema>;
 export type PlayAudioEvent = z.infer<typeof PlayAudioEventSchema>;
 export type CheckpointEvent = z.infer<typeof CheckpointEventSchema>;
 export type ClearAudioEvent = z.infer<typeof ClearAudioEventSchema>;
+export type MediaFormat = StartEvent['start']['mediaFormat'];
+
+/** Any parsed event received from Plivo */
+export type InboundEvent<THeaders extends object = ExtraHeaders> =
+  | StartEvent<THeaders>
+  | MediaEvent
+  | DTMFEvent
+  | PlayedStreamEvent
+  | ClearedAudioEvent;
+/** Inbound message with an event type the SDK does not handle, as received */
+export type UnknownEvent = { event?: unknown } & Record<string, unknown>;
+/** Any event sent to Plivo */
+export type OutboundEvent = PlayAudioEvent | CheckpointEvent | ClearAudioEvent;
+
+/**
+ * Serialize a `playAudio` event. Equivalent to `JSON.stringify`, but the payload (base64, so nothing to escape)
+ * is not scanned, which makes it several times faster for audio frames.
+ * @internal
+ */
+export function encodePlayAudio(contentType: string, sampleRate: number, base64Payload: string): string {
+  const media = `"contentType":${JSON.stringify(contentType)},"sampleRate":${JSON.stringify(sampleRate)}`;
+  return `{"event":"playAudio","media":{${media},"payload":"${base64Payload}"}}`;
+}
@@ -0,0 +1,159 @@
+import { TypedEmitter } from './emitter.js';
+
+export interface VadOptions {
+  /** Energy threshold in dBFS above which a frame counts as speech (default: -40) */
+  threshold?: number;
+  /** Silence needed after speech before `speechEnd` fires, in milliseconds (default: 500) */
+  hangoverMs?: number;
+  /** Continuous speech needed before `speechStart` fires, in milliseconds (default: 100) */
+  minSpeechMs?: number;
+  /** Analysis window in milliseconds (default: 20) */
+  frameMs?: number;
+  /** Media track to analyse (default: 'inbound') */
+  track?: string;
+}
+
+export interface SpeechEvent {
+  /** Offset into the analysed audio where speech started, in milliseconds */
+  startMs: number;
+  /** Offset into the analysed audio where speech ended, in milliseconds (speechEnd only) */
+  endMs?: number;
+  /** Duration of the speech segment, in milliseconds (speechEnd only) */
+  durationMs?: number;
+  /** Energy of the frame that triggered the event, in dBFS */
+  level: number;
+}
+
+export type VadEventMap = {
+  speechStart: [event: SpeechEvent];
+  speechEnd: [event: SpeechEvent];
+};
+
+/**
+ * Dependency-free, energy-based voice activity detector over PCM16 audio.
+ *
+ * Frames whose RMS level reaches `threshold` count as speech. `speechStart` fires once
+ * `minSpeechMs` of continuous speech has been seen, `speechEnd` once `hangoverMs` of
+ * silence follows it. Timing is based on the amount of audio processed, not wall clock.
+ */
+export class VoiceActivityDetector extends TypedEmitter<VadEventMap> {
+  public readonly threshold: number;
+  public readonly hangoverMs: number;
+  public readonly minSpeechMs: number;
+  public readonly frameMs: number;
+  public readonly track: string;
+
+  private speaking = false;
+  private positionMs = 0;
+  private speechRunMs = 0;
+  private speechStartMs = 0;
+  private silenceRunMs = 0;
+  private remainder = Buffer.alloc(0);
+  private remainderRate = 0;
+
+  constructor(options: VadOptions = {}) {
+    super();
+    this.threshold = options.threshold ?? -40;
+    this.hangoverMs = options.hangoverMs ?? 500;
+    this.minSpeechMs = options.minSpeechMs ?? 100;
+    this.frameMs = options.frameMs ?? 20;
+    this.track = options.track ?? 'inbound';
+  }
+
+  /**
+   * Whether speech is currently in progress
+   */
+  public get isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  /**
+   * Milliseconds of audio processed so far
+   */
+  public get processedMs(): number {
+    return this.positionMs;
+  }
+
+  /**
+   * Feed little-endian PCM16 audio
+   */
+  public process(pcm: Buffer, sampleRate: number): void {
+    if (sampleRate !== this.remainderRate) {
+      this.remainder = Buffer.alloc(0);
+      this.remainderRate = sampleRate;
+    }
+    const data = this.remainder.length > 0 ? Buffer.concat([this.remainder, pcm]) : pcm;
+    const frameBytes = Math.max(2, Math.round((sampleRate * this.frameMs) / 1000) * 2);
+
+    let offset = 0;
+    for (; offset + frameBytes <= data.length; offset += frameBytes) {
+      this.processFrame(data.subarray(offset, offset + frameBytes), (frameBytes / 2 / sampleRate) * 1000);
+    }
+    this.remainder = Buffer.from(data.subarray(offset));
+  }
+
+  /**
+   * Reset the detector state without emitting events
+   */
+  public reset(): void {
+    this.speaking = false;
+    this.positionMs = 0;
+    this.speechRunMs = 0;
+    this.speechStartMs = 0;
+    this.silenceRunMs = 0;
+    this.remainder = Buffer.alloc(0);
+  }
+
+  private processFrame(frame: Buffer, durationMs: number) {
+    const level = frameLevel(frame);
+    const isSpeech = level >= this.threshold;
+
+    if (!this.speaking) {
+      if (isSpeech) {
+        if (this.speechRunMs === 0) {
+          this.speechStartMs = this.positionMs;
+        }
+        this.speechRunMs += durationMs;
+        if (this.speechRunMs >= this.minSpeechMs) {
+          this.speaking = true;
+          this.silenceRunMs = 0;
+          this.emit('speechStart', { startMs: this.speechStartMs, level });
+        }
+      } else {
+        this.speechRunMs = 0;
+      }
+    } else if (isSpeech) {
+      this.silenceRunMs = 0;
+    } else {
+      this.silenceRunMs += durationMs;
+      if (this.silenceRunMs >= this.hangoverMs) {
+        const endMs = this.positionMs + durationMs - this.silenceRunMs;
+        this.speaking = false;
+        this.speechRunMs = 0;
+        this.emit('speechEnd', {
+          startMs: this.speechStartMs,
+          endMs,
+          durationMs: endMs - this.speechStartMs,
+          level,
+        });
+      }
+    }
+
+    this.positionMs += durationMs;
+  }
+}
+
+/**
+ * RMS level of a PCM16 frame in dBFS
+ */
+export function frameLevel(frame: Buffer): number {
+  const samples = frame.length >> 1;
+  if (samples === 0) return -Infinity;
+  let sum = 0;
+  for (let i = 0; i < samples; i++) {
+    const sample = frame.readInt16LE(i * 2);
+    sum += sample * sample;
+  }
+  const rms = Math.sqrt(sum / samples);
+  return rms === 0 ? -Infinity : 20 * Math.log10(rms / 32768);
+}
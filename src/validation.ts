@@ -0,0 +1,187 @@
+import { z } from 'zod';
+import {
+  ClearedAudioEventSchema,
+  DTMFEventSchema,
+  MediaEventSchema,
+  PlayedStreamEventSchema,
+  StartEventSchema,
+  MediaFrame,
+  toStartEvent,
+  type InboundEvent,
+  type MediaEventData,
+} from './types.js';
+
+/**
+ * How inbound events are checked:
+ * - `strict`: the full schema, including UUID ids and required `extra_headers`
+ * - `lenient`: only the fields the SDK relies on; ids may be any string, `extra_headers` may be missing,
+ *   numeric strings are accepted and unknown fields are kept
+ * - `off`: no validation; events are passed on as received
+ */
+export type ValidationMode = 'strict' | 'lenient' | 'off';
+
+const LenientStartEventSchema = z
+  .looseObject({
+    event: z.literal('start'),
+    sequenceNumber: z.coerce.number(),
+    start: z.looseObject({
+      callId: z.string(),
+      streamId: z.string(),
+      accountId: z.string().default(''),
+      tracks: z.array(z.string()).default([]),
+      mediaFormat: z.looseObject({
+        encoding: z.string(),
+        sampleRate: z.coerce.number(),
+      }),
+    }),
+    extra_headers: z.string().default(''),
+  })
+  .transform(toStartEvent);
+
+const LenientMediaEventSchema = z
+  .looseObject({
+    event: z.literal('media'),
+    sequenceNumber: z.coerce.number(),
+    streamId: z.string(),
+    media: z.looseObject({
+      track: z.string(),
+      timestamp: z.coerce.string(),
+      chunk: z.coerce.number(),
+      payload: z.string(),
+    }),
+    extra_headers: z.string().default(''),
+  })
+  .transform((data) => new MediaFrame(data));
+
+const LenientDTMFEventSchema = z.looseObject({
+  event: z.literal('dtmf'),
+  sequenceNumber: z.coerce.number(),
+  streamId: z.string(),
+  dtmf: z.looseObject({
+    track: z.string().default('inbound'),
+    digit: z.coerce.string(),
+    timestamp: z.coerce.string().default(''),
+  }),
+  extra_headers: z.string().default(''),
+});
+
+const LenientPlayedStreamEventSchema = z.looseObject({
+  event: z.literal('playedStream'),
+  sequenceNumber: z.coerce.number(),
+  streamId: z.string(),
+  name: z.string(),
+});
+
+const LenientClearedAudioEventSchema = z.looseObject({
+  event: z.literal('clearedAudio'),
+  sequenceNumber: z.coerce.number(),
+  streamId: z.string(),
+});
+
+type InboundEventType = InboundEvent['event'];
+
+const SCHEMAS: Record<Exclude<ValidationMode, 'off'>, Record<InboundEventType, z.ZodType>> = {
+  strict: {
+    start: StartEventSchema,
+    media: MediaEventSchema,
+    dtmf: DTMFEventSchema,
+    playedStream: PlayedStreamEventSchema,
+    clearedAudio: ClearedAudioEventSchema,
+  },
+  lenient: {
+    start: LenientStartEventSchema,
+    media: LenientMediaEventSchema,
+    dtmf: LenientDTMFEventSchema,
+    playedStream: LenientPlayedStreamEventSchema,
+    clearedAudio: LenientClearedAudioEventSchema,
+  },
+};
+
+/**
+ * Whether `type` is an inbound event the SDK handles
+ */
+export function isInboundEventType(type: unknown): type is InboundEventType {
+  return typeof type === 'string' && Object.prototype.hasOwnProperty.call(SCHEMAS.strict, type);
+}
+
+/**
+ * Cheap structural check for the common case of a well-formed media frame, so that most frames skip zod.
+ * `streamId` must equal the already validated id of the session; anything else takes the schema path.
+ */
+function isWellFormedMedia(data: any, streamId: string | undefined): data is MediaEventData {
+  const media = data.media;
+  return (
+    streamId !== undefined &&
+    data.streamId === streamId &&
+    typeof data.sequenceNumber === 'number' &&
+    typeof data.extra_headers === 'string' &&
+    typeof media === 'object' &&
+    media !== null &&
+    typeof media.track === 'string' &&
+    typeof media.timestamp === 'string' &&
+    typeof media.chunk === 'number' &&
+    typeof media.payload === 'string'
+  );
+}
+
+/**
+ * A media frame serialized the way Plivo sends it: compact, keys in this order, a base64 payload.
+ * Frames laid out any other way are parsed with `JSON.parse` instead.
+ */
+const COMPACT_MEDIA_FRAME =
+  /^\{"sequenceNumber":(\d+),"streamId":"([\w-]*)","event":"media","media":\{"track":"(\w*)","timestamp":"(\d*)","chunk":(\d+),"payload":"([A-Za-z0-9+/=]*)"\},"extra_headers":"((?:[^"\\\x00-\x1f]|\\.)*)"\}$/;
+
+/**
+ * Read a media frame straight from the message string, without `JSON.parse` or a schema.
+ * Returns `undefined` for anything that is not a compact media frame for the session's `streamId`,
+ * which then takes the regular path.
+ */
+export function parseMediaMessage(message: string, streamId: string | undefined): MediaFrame | undefined {
+  if (streamId === undefined || !message.includes('"event":"media"')) return undefined;
+  const match = COMPACT_MEDIA_FRAME.exec(message);
+  if (!match || match[2] !== streamId) return undefined;
+  let extraHeaders = match[7]!;
+  if (extraHeaders.includes('\\')) {
+    try {
+      extraHeaders = JSON.parse(`"${extraHeaders}"`);
+    } catch {
+      return undefined;
+    }
+  }
+  return new MediaFrame({
+    event: 'media',
+    sequenceNumber: Number(match[1]),
+    streamId,
+    media: { track: match[3]!, timestamp: match[4]!, chunk: Number(match[5]), payload: match[6]! },
+    extra_headers: extraHeaders,
+  });
+}
+
+/**
+ * Parse an inbound event of a known type; throws a `ZodError` if it fails validation.
+ * Pass the session's `streamId` to let well-formed media frames bypass the schema.
+ */
+export function parseInboundEvent(
+  data: { event: InboundEventType },
+  mode: ValidationMode = 'strict',
+  streamId?: string,
+): InboundEvent {
+  if (data.event === 'media' && isWellFormedMedia(data, streamId)) {
+    return new MediaFrame(data);
+  }
+  if (mode !== 'off') {
+    return SCHEMAS[mode][data.event].parse(data) as InboundEvent;
+  }
+  // Unvalidated, so each event is taken to have the shape its `event` field names
+  const raw: Record<string, unknown> = data;
+  switch (data.event) {
+    case 'start': {
+      const start = raw as Omit<z.input<typeof StartEventSchema>, 'extra_headers'> & { extra_headers?: string };
+      return toStartEvent({ ...start, extra_headers: start.extra_headers ?? '' });
+    }
+    case 'media':
+      return new MediaFrame(raw as unknown as MediaEventData);
+    default:
+      return raw as Extract<InboundEvent, { event: typeof data.event }>;
+  }
+}
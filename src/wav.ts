@@ -0,0 +1,68 @@
+import { AudioFormatError } from './errors.js';
+
+export interface WavInfo {
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+  /** WAVE format tag (1 = PCM, 6 = A-law, 7 = mu-law) */
+  format: number;
+  /** Audio data (without the header) */
+  data: Buffer;
+}
+
+/** Size of the canonical 44-byte RIFF/WAVE header */
+export const WAV_HEADER_SIZE = 44;
+
+/**
+ * Build a canonical 44-byte header for 16-bit PCM WAV data
+ */
+export function wavHeader(dataBytes: number, sampleRate: number, channels: number): Buffer {
+  const header = Buffer.alloc(WAV_HEADER_SIZE);
+  const blockAlign = channels * 2;
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + dataBytes, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(channels, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * blockAlign, 28);
+  header.writeUInt16LE(blockAlign, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(dataBytes, 40);
+  return header;
+}
+
+/**
+ * Parse a RIFF/WAVE buffer, returning its format and audio data
+ */
+export function parseWav(buffer: Buffer): WavInfo {
+  if (buffer.length < 12 || buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+    throw new AudioFormatError('Not a RIFF/WAVE file');
+  }
+
+  let offset = 12;
+  let fmt: Omit<WavInfo, 'data'> | undefined;
+  while (offset + 8 <= buffer.length) {
+    const id = buffer.toString('ascii', offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    const body = offset + 8;
+    if (id === 'fmt ') {
+      fmt = {
+        format: buffer.readUInt16LE(body),
+        channels: buffer.readUInt16LE(body + 2),
+        sampleRate: buffer.readUInt32LE(body + 4),
+        bitsPerSample: buffer.readUInt16LE(body + 14),
+      };
+    } else if (id === 'data') {
+      if (!fmt) {
+        throw new AudioFormatError('WAV data chunk found before fmt chunk');
+      }
+      return { ...fmt, data: buffer.subarray(body, Math.min(buffer.length, body + size)) };
+    }
+    offset = body + size + (size % 2);
+  }
+  throw new AudioFormatError('WAV file has no data chunk');
+}
@@ -0,0 +1,140 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import type { IncomingMessage } from 'http';
+import type { WebSocket } from 'ws';
+import {
+  AckCancelledError,
+  AckTimeoutError,
+  PlivoStreamSession,
+  PlivoWebSocketServer,
+  parseInboundEvent,
+  type StartEvent,
+} from '../src/index.js';
+import { PendingAcks } from '../src/acks.js';
+import { FakeSocket, STREAM_ID, closeServer, connect, listening, startMessage } from './helpers.js';
+
+const servers: PlivoWebSocketServer[] = [];
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map(closeServer));
+});
+
+function startedSession() {
+  const socket = new FakeSocket();
+  const session = new PlivoStreamSession(socket as unknown as WebSocket, {} as IncomingMessage, {
+    ackTimeouts: { checkpointMs: 40, clearAudioMs: 0 },
+  });
+  session.handleStart(parseInboundEvent(JSON.parse(startMessage())) as StartEvent);
+  return { socket, session };
+}
+
+const played = (name: string) => ({ event: 'playedStream' as const, sequenceNumber: 1, streamId: STREAM_ID, name });
+
+describe('PendingAcks', () => {
+  test('settles acknowledgements for the same key oldest first', async () => {
+    const acks = new PendingAcks<string>();
+    const first = acks.add('a', 0, () => new Error('timeout'));
+    const second = acks.add('a', 0, () => new Error('timeout'));
+
+    expect(acks.resolve('b', 'nobody')).toBe(false);
+    acks.resolve('a', 'one');
+    acks.resolve('a', 'two');
+
+    expect(await Promise.all([first, second])).toEqual(['one', 'two']);
+    expect(acks.size).toBe(0);
+  });
+
+  test('rejects with the timeout error, leaving later acknowledgements to the next resolve', async () => {
+    const acks = new PendingAcks<string>();
+    const timed = acks.add('a', 10, () => new Error('first timed out'));
+    const waiting = acks.add('a', 0, () => new Error('never'));
+
+    await expect(timed).rejects.toThrow('first timed out');
+    acks.resolve('a', 'late');
+    expect(await waiting).toBe('late');
+  });
+
+  test('rejectAll empties every key', async () => {
+    const acks = new PendingAcks<string>();
+    const pending = [acks.add('a', 1000, () => new Error('timeout')), acks.add('b', 0, () => new Error('timeout'))];
+    acks.rejectAll((key) => new Error(`closed ${key}`));
+
+    expect(await Promise.all(pending.map((promise) => promise.catch((error) => error.message)))).toEqual([
+      'closed a',
+      'closed b',
+    ]);
+    expect(acks.size).toBe(0);
+  });
+});
+
+describe('PlivoStreamSession acknowledgements', () => {
+  test('resolves each checkpoint with its playedStream event, or times out with the session default', async () => {
+    const { socket, session } = startedSession();
+    const greeting = session.checkpoint('greeting');
+    const forgotten = session.checkpoint('forgotten');
+    session.handlePlayedStream(played('greeting'));
+
+    expect(await greeting).toEqual(played('greeting'));
+    const error = await forgotten.catch((error) => error);
+    expect(error).toBeInstanceOf(AckTimeoutError);
+    expect(error).toMatchObject({ action: 'checkpoint', timeoutMs: 40, checkpointName: 'forgotten' });
+    expect(socket.sent).toEqual([
+      { event: 'checkpoint', streamId: STREAM_ID, name: 'greeting' },
+      { event: 'checkpoint', streamId: STREAM_ID, name: 'forgotten' },
+    ]);
+  });
+
+  test('sends a checkpoint after the queued audio, and cancels it when that audio is cleared', async () => {
+    const { socket, session } = startedSession();
+    session.player.enqueue('audio/x-mulaw', 8000, Buffer.alloc(8000, 0xff));
+    const checkpoint = session.checkpoint('after-audio', { timeoutMs: 0 });
+    const cleared = session.clearAudio();
+
+    const error = await checkpoint.catch((error) => error);
+    expect(error).toBeInstanceOf(AckCancelledError);
+    expect(error).toMatchObject({ reason: 'cleared', checkpointName: 'after-audio' });
+    expect(socket.sent.map((event) => event.event)).not.toContain('checkpoint');
+    expect(socket.sent.at(-1)).toEqual({ event: 'clearAudio', streamId: STREAM_ID });
+
+    // clearAudioMs is 0, so only the acknowledgement (or the close) settles it
+    session.handleClearedAudio({ event: 'clearedAudio', sequenceNumber: 2, streamId: STREAM_ID });
+    expect(await cleared).toMatchObject({ event: 'clearedAudio' });
+  });
+
+  test('cancels what is still pending when the connection closes', async () => {
+    const { session } = startedSession();
+    const checkpoint = session.checkpoint('end', { timeoutMs: 0 });
+    const clear = session.clearAudio();
+    session.handleClose({ reason: 'remote', code: 1000, message: '' });
+
+    expect(await checkpoint.catch((error) => error.message)).toBe("checkpoint 'end' was cancelled: connection closed");
+    expect(await clear.catch((error) => error.message)).toBe('clearAudio was cancelled: connection closed');
+  });
+
+  test('settles from the acknowledgements Plivo sends over the socket', async () => {
+    const server = new PlivoWebSocketServer({ port: 0 });
+    servers.push(server);
+    const results = new Promise<unknown[]>((resolve) => {
+      server
+        .onStart((event, ws, session) => {
+          Promise.all([session.checkpoint('ready'), session.clearAudio()]).then(resolve);
+        })
+        .start();
+    });
+    const ws = await connect(await listening(server));
+    ws.on('message', (data) => {
+      const event = JSON.parse(data.toString());
+      const reply =
+        event.event === 'checkpoint'
+          ? { event: 'playedStream', sequenceNumber: 1, streamId: STREAM_ID, name: event.name }
+          : { event: 'clearedAudio', sequenceNumber: 2, streamId: STREAM_ID };
+      ws.send(JSON.stringify(reply));
+    });
+    ws.send(startMessage());
+
+    expect(await results).toEqual([
+      { event: 'playedStream', sequenceNumber: 1, streamId: STREAM_ID, name: 'ready' },
+      { event: 'clearedAudio', sequenceNumber: 2, streamId: STREAM_ID },
+    ]);
+    ws.close();
+  });
+});
@@ -0,0 +1,142 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { createServer, type IncomingMessage, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import {
+  PlivoWebSocketServer,
+  attachToServer,
+  createBunAdapter,
+  fastifyPlivoStream,
+  type CloseInfo,
+  type PlivoStreamSession,
+  type PlivoWebSocketServerOptions,
+} from '../src/index.js';
+import { closeServer, connect, listening, startMessage, upgradeStatus } from './helpers.js';
+
+const cleanup: (() => unknown)[] = [];
+/** Upgrade requests a WebSocket server has answered */
+const accepted = new WeakSet<IncomingMessage>();
+
+afterEach(async () => {
+  await Promise.all(cleanup.splice(0).map((close) => close()));
+});
+
+function plivoServer(options: PlivoWebSocketServerOptions = {}) {
+  const server = new PlivoWebSocketServer({ noServer: true, ...options });
+  cleanup.push(() => closeServer(server));
+  server.on('headers', (headers, request) => accepted.add(request));
+  const started = new Promise<PlivoStreamSession>((resolve) => {
+    server.onStart((event, ws, session) => resolve(session)).start();
+  });
+  return { server, started };
+}
+
+/** An HTTP server answering upgrades nobody else took with 404 */
+async function httpServer(): Promise<{ http: Server; port: number }> {
+  const http = createServer();
+  http.on('upgrade', (request, socket) => {
+    // Runs before the listeners attached later, which have accepted the request or not by then
+    setImmediate(() => {
+      if (!accepted.has(request)) socket.end('HTTP/1.1 404 Not Found\r\nContent-Length: 0\r\n\r\n');
+    });
+  });
+  cleanup.push(() => new Promise((resolve) => http.close(resolve)));
+  await new Promise<void>((resolve) => http.listen(0, resolve));
+  return { http, port: (http.address() as AddressInfo).port };
+}
+
+describe('attachToServer', () => {
+  test('serves each WebSocket server on its own path of one HTTP server until detached', async () => {
+    const { http, port } = await httpServer();
+    const a = plivoServer({ path: '/a' });
+    const b = plivoServer({ path: '/b' });
+    const detachA = attachToServer(a.server, http);
+    attachToServer(b.server, http);
+
+    const ws = await connect(port, '/b');
+    ws.send(startMessage());
+    expect((await b.started).request.url).toBe('/b');
+    ws.close();
+    await new Promise((resolve) => ws.once('close', resolve));
+
+    detachA();
+    expect(await upgradeStatus(port, '/a')).toBe(404);
+  });
+
+  test('requires a noServer WebSocket server', async () => {
+    const { http } = await httpServer();
+    const server = new PlivoWebSocketServer({ port: 0 });
+    cleanup.push(() => closeServer(server));
+    await listening(server);
+
+    expect(() => attachToServer(server, http)).toThrow('noServer: true');
+  });
+});
+
+describe('fastifyPlivoStream', () => {
+  test("serves on Fastify's server and detaches and closes with it", async () => {
+    const { http, port } = await httpServer();
+    const { server, started } = plivoServer({ path: '/stream' });
+    const hooks: (() => Promise<void>)[] = [];
+    await fastifyPlivoStream(server)({ server: http, addHook: (name, hook) => hooks.push(hook) });
+
+    const ws = await connect(port, '/stream');
+    ws.send(startMessage());
+    await started;
+    ws.close();
+    await new Promise((resolve) => ws.once('close', resolve));
+
+    await Promise.all(hooks.map((hook) => hook()));
+    expect(http.listenerCount('upgrade')).toBe(1);
+    expect(await upgradeStatus(port, '/stream')).toBe(404);
+  });
+});
+
+describe('createBunAdapter', () => {
+  function serve(server: PlivoWebSocketServer<any, any>) {
+    const adapter = createBunAdapter(server);
+    const bun = Bun.serve({
+      port: 0,
+      fetch: (request, bunServer) => adapter.upgrade(request, bunServer as any),
+      websocket: adapter.websocket as any,
+    });
+    cleanup.push(() => bun.stop(true));
+    return bun.port!;
+  }
+
+  test('runs streams over Bun WebSockets, answering pings and reporting closes', async () => {
+    const { server, started } = plivoServer({ path: '/stream', liveness: { pingIntervalMs: 20 } });
+    const closed = new Promise<CloseInfo>((resolve) => server.onClose((ws, session, info) => resolve(info)));
+    const port = serve(server);
+
+    const ws = await connect(port, '/stream?call=1');
+    const received = new Promise<any>((resolve) => ws.once('message', (data) => resolve(JSON.parse(`${data}`))));
+    ws.send(startMessage());
+    const session = await started;
+    expect(session.request.url).toBe('/stream?call=1');
+    expect(session.request.headers.host).toBe(`localhost:${port}`);
+
+    session.playAudio('audio/x-mulaw', 8000, Buffer.alloc(160, 0xff));
+    expect(await received).toMatchObject({ event: 'playAudio', media: { contentType: 'audio/x-mulaw' } });
+    // Unanswered pings would have terminated the connection by now
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(session.isActive).toBe(true);
+
+    ws.close(1000, 'bye');
+    expect(await closed).toMatchObject({ reason: 'remote', code: 1000, message: 'bye' });
+  });
+
+  test('answers requests it cannot upgrade with the matching status', async () => {
+    const open = plivoServer({ path: '/stream' });
+    const openPort = serve(open.server);
+    expect((await fetch(`http://localhost:${openPort}/other`)).status).toBe(400);
+    // The right path, but not a WebSocket upgrade
+    expect((await fetch(`http://localhost:${openPort}/stream`)).status).toBe(400);
+
+    const signed = plivoServer({ validateSignature: true, authToken: 'token' });
+    expect(await upgradeStatus(serve(signed.server))).toBe(403);
+    expect(signed.server.metrics.snapshot().rejectedConnections).toEqual({ missing: 1 });
+
+    void open.server.drain({ timeoutMs: 0 });
+    expect(await upgradeStatus(openPort, '/stream')).toBe(503);
+  });
+});
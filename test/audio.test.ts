@@ -0,0 +1,120 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  AudioFormatError,
+  alawToPcm16,
+  decodeToPcm16,
+  encodeFromPcm16,
+  mediaToPcm16,
+  mulawToPcm16,
+  parseEncoding,
+  pcm16ToAlaw,
+  pcm16ToMedia,
+  pcm16ToMulaw,
+  resamplePcm16,
+} from '../src/index.js';
+
+const allBytes = Buffer.from(Array.from({ length: 256 }, (_, i) => i));
+
+function pcm(...samples: number[]): Buffer {
+  const out = Buffer.alloc(samples.length * 2);
+  samples.forEach((sample, i) => out.writeInt16LE(sample, i * 2));
+  return out;
+}
+
+function samples(buffer: Buffer): number[] {
+  return Array.from({ length: buffer.length >> 1 }, (_, i) => buffer.readInt16LE(i * 2));
+}
+
+describe('G.711', () => {
+  test('mu-law decodes to the reference levels and every code re-encodes to itself', () => {
+    expect(samples(mulawToPcm16(Buffer.from([0xff, 0x7f, 0x80, 0x00, 0xfe])))).toEqual([0, 0, 32124, -32124, 8]);
+
+    // 0x7f is negative zero, which encodes as positive zero
+    const expected = Buffer.from(allBytes.map((byte) => (byte === 0x7f ? 0xff : byte)));
+    expect(pcm16ToMulaw(mulawToPcm16(allBytes))).toEqual(expected);
+  });
+
+  test('A-law decodes to the reference levels and every code re-encodes to itself', () => {
+    expect(samples(alawToPcm16(Buffer.from([0xd5, 0x55, 0xaa, 0x2a])))).toEqual([8, -8, 32256, -32256]);
+    expect(pcm16ToAlaw(alawToPcm16(allBytes))).toEqual(allBytes);
+  });
+
+  test('keeps the error of a PCM round trip within the segment step, clipping at full scale', () => {
+    const ramp = Array.from({ length: 1024 }, (_, i) => Math.round(-32768 + i * 64.03));
+    for (const [encode, decode] of [
+      [pcm16ToMulaw, mulawToPcm16],
+      [pcm16ToAlaw, alawToPcm16],
+    ] as const) {
+      samples(decode(encode(pcm(...ramp)))).forEach((value, i) => {
+        const input = Math.max(-32256, Math.min(32256, ramp[i]!));
+        expect(Math.abs(value - input)).toBeLessThanOrEqual(Math.max(16, Math.abs(input) / 16) + 128);
+      });
+    }
+    expect(samples(mulawToPcm16(pcm16ToMulaw(pcm(32767, -32768))))).toEqual([32124, -32124]);
+  });
+});
+
+describe('parseEncoding', () => {
+  test('accepts content types with parameters and the usual aliases', () => {
+    expect(parseEncoding('audio/x-mulaw;rate=8000')).toBe('mulaw');
+    expect(['ulaw', 'PCMU', 'audio/x-alaw', 'pcma', 'L16', 'linear16'].map(parseEncoding)).toEqual([
+      'mulaw',
+      'mulaw',
+      'alaw',
+      'alaw',
+      'l16',
+      'l16',
+    ]);
+    expect(() => parseEncoding('audio/opus')).toThrow(AudioFormatError);
+  });
+
+  test('routes the generic codec helpers, passing L16 through untouched', () => {
+    const l16 = pcm(1, -1);
+
+    expect(decodeToPcm16(l16, 'audio/x-l16')).toBe(l16);
+    expect(encodeFromPcm16(l16, 'l16')).toBe(l16);
+    expect(encodeFromPcm16(pcm(0, 0), 'alaw')).toEqual(Buffer.from([0xd5, 0xd5]));
+  });
+});
+
+describe('resamplePcm16', () => {
+  test('returns the input unchanged at the same rate and rejects invalid rates', () => {
+    const input = pcm(1, 2, 3);
+
+    expect(resamplePcm16(input, 8000, 8000)).toBe(input);
+    expect(() => resamplePcm16(input, 0, 8000)).toThrow(AudioFormatError);
+    expect(() => resamplePcm16(input, 8000, -1)).toThrow('Invalid sample rate conversion: 8000 -> -1');
+  });
+
+  test('interpolates when upsampling and averages when downsampling', () => {
+    expect(samples(resamplePcm16(pcm(0, 100, 200, -200), 8000, 16000))).toEqual([0, 50, 100, 150, 200, 0, -200, -200]);
+    expect(samples(resamplePcm16(pcm(0, 100, 200, -200, 7, 7), 24000, 8000))).toEqual([100, -62]);
+  });
+
+  test('keeps a tone at its frequency across a 16 kHz to 8 kHz to 16 kHz trip', () => {
+    const tone = pcm(
+      ...Array.from({ length: 1600 }, (_, i) => Math.round(8000 * Math.sin((2 * Math.PI * 400 * i) / 16000))),
+    );
+    const trip = samples(resamplePcm16(resamplePcm16(tone, 16000, 8000), 8000, 16000));
+    const original = samples(tone);
+
+    expect(trip).toHaveLength(original.length);
+    const worst = Math.max(...trip.slice(10, -10).map((value, i) => Math.abs(value - original[i + 10]!)));
+    expect(worst).toBeLessThan(800);
+  });
+});
+
+describe('stream media conversion', () => {
+  test('transcodes PCM16 at any rate to the stream format and back', () => {
+    const mediaFormat = { encoding: 'audio/x-mulaw', sampleRate: 8000 };
+    const speech = pcm(...Array.from({ length: 320 }, (_, i) => (i % 40 < 20 ? 4000 : -4000)));
+
+    const media = pcm16ToMedia(speech, 16000, mediaFormat);
+    expect(media).toHaveLength(160);
+
+    const decoded = mediaToPcm16(media, mediaFormat, 16000);
+    expect(decoded).toHaveLength(speech.length);
+    expect(mediaToPcm16(media, mediaFormat)).toHaveLength(320);
+    expect(Math.max(...samples(decoded))).toBeGreaterThan(3500);
+  });
+});
@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import type { WebSocket } from 'ws';
+import {
+  AckTimeoutError,
+  PlivoWebSocketServer,
+  type InterruptedEvent,
+  type PlivoWebSocketServerOptions,
+} from '../src/index.js';
+import { closeServer, connect, dtmfMessage, listening, mediaMessage, startMessage } from './helpers.js';
+
+const servers: PlivoWebSocketServer[] = [];
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map(closeServer));
+});
+
+/** 20 ms of full-scale mu-law square wave */
+const loud = Buffer.from(Array.from({ length: 160 }, (_, i) => (i % 2 === 0 ? 0x00 : 0x80)));
+
+/**
+ * Start a server that plays a second of audio as soon as the stream starts, and a client that has sent the start
+ * event and seen the audio arrive
+ */
+async function playing(options: PlivoWebSocketServerOptions) {
+  const server = new PlivoWebSocketServer({ port: 0, ...options });
+  servers.push(server);
+  const interrupted: InterruptedEvent[] = [];
+  const errors: Error[] = [];
+  server
+    .onStart((event, ws, session) => session.playAudio('audio/x-mulaw', 8000, Buffer.alloc(8000, 0xff)))
+    .onInterrupted((event) => interrupted.push(event))
+    .onError((error) => errors.push(error))
+    .start();
+  const ws = await connect(await listening(server));
+  const received: string[] = [];
+  ws.on('message', (data) => received.push(JSON.parse(data.toString()).event));
+  ws.send(startMessage());
+  await until(() => received.includes('playAudio'));
+  return { ws, received, interrupted, errors };
+}
+
+async function until(condition: () => boolean, timeoutMs = 2000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+function speak(ws: WebSocket, frames: number, payload = loud) {
+  for (let chunk = 0; chunk < frames; chunk++) ws.send(mediaMessage(chunk, payload));
+}
+
+describe('barge-in', () => {
+  test('clears playback when the caller talks over it', async () => {
+    const { ws, received, interrupted } = await playing({ bargeIn: { graceMs: 0, minSpeechMs: 60 } });
+
+    speak(ws, 2);
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(received).not.toContain('clearAudio');
+
+    speak(ws, 5);
+    await until(() => received.includes('clearAudio'));
+    expect(interrupted).toHaveLength(1);
+    expect(interrupted[0]!.reason).toBe('speech');
+    expect(interrupted[0]!.remainingMs).toBeGreaterThan(0);
+    ws.close();
+  });
+
+  test('ignores speech during the grace period and quiet audio', async () => {
+    const { ws, received } = await playing({ bargeIn: { graceMs: 10_000, minSpeechMs: 20 } });
+    speak(ws, 10);
+    speak(ws, 10, Buffer.alloc(160, 0xff));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(received).toEqual(['playAudio']);
+    ws.close();
+  });
+
+  test('clears playback on the configured DTMF digits only', async () => {
+    const { ws, received, interrupted } = await playing({ bargeIn: { graceMs: 0, dtmf: ['5'] } });
+    ws.send(dtmfMessage('1', 1));
+    ws.send(dtmfMessage('5', 2));
+    await until(() => received.includes('clearAudio'));
+
+    expect(interrupted.map(({ reason, digit }) => ({ reason, digit }))).toEqual([{ reason: 'dtmf', digit: '5' }]);
+    ws.close();
+  });
+
+  test('reports an unacknowledged clearAudio to onError', async () => {
+    const { ws, errors } = await playing({
+      bargeIn: { graceMs: 0, dtmf: true },
+      ackTimeouts: { clearAudioMs: 30 },
+    });
+    ws.send(dtmfMessage('1'));
+    await until(() => errors.length > 0);
+
+    expect(errors[0]).toBeInstanceOf(AckTimeoutError);
+    expect((errors[0] as AckTimeoutError).action).toBe('clearAudio');
+    ws.close();
+  });
+});
@@ -0,0 +1,149 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { WebSocket } from 'ws';
+import { PlivoWebSocketServer, readCapture } from '../src/index.js';
+import { closeServer, connect, dtmfMessage, listening, mediaMessage, startMessage } from './helpers.js';
+
+const servers: PlivoWebSocketServer[] = [];
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map(closeServer));
+});
+
+/** Handlers that answer the caller, so the capture has outbound traffic to compare on replay */
+function answering(server: PlivoWebSocketServer, onClose: () => void): PlivoWebSocketServer {
+  return server
+    .onStart((event, ws, session) => session.playAudio('audio/x-mulaw', 8000, Buffer.alloc(160, 0xff)))
+    .onDtmf((event, ws, session) => {
+      session.checkpoint(`digit-${event.dtmf.digit}`).catch(() => {});
+    })
+    .onClose(() => onClose());
+}
+
+describe('StreamCapture', () => {
+  test('captures a call that replays through the same handlers, without recording it again', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'capture-test-'));
+    try {
+      const path = join(dir, 'call.ndjson');
+      const recordings: string[] = [];
+      const record = {
+        channels: 'inbound' as const,
+        destination: () => {
+          recordings.push('recorded');
+          return join(dir, 'call.wav');
+        },
+      };
+      const server = new PlivoWebSocketServer({ port: 0, record, capture: { destination: path } });
+      servers.push(server);
+      const closed = new Promise<void>((resolve) => answering(server, resolve).start());
+      const port = await listening(server);
+      const ws = new WebSocket(`ws://localhost:${port}/stream?call=1`, {
+        headers: { 'X-Plivo-Signature-V3': 'signed', 'X-Plivo-Signature-V3-Nonce': '123', 'X-Custom': 'kept' },
+      });
+      await new Promise((resolve) => ws.once('open', resolve));
+      ws.send(startMessage());
+      ws.send(mediaMessage(0));
+      ws.send(dtmfMessage('5', 2));
+      ws.send('not json');
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      ws.close(1000, 'bye');
+      await closed;
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const entries = await readCapture(path);
+      expect(entries.map((entry) => entry.type)).toEqual([
+        'connection',
+        'inbound',
+        'outbound',
+        'inbound',
+        'inbound',
+        'outbound',
+        'inbound',
+        'close',
+      ]);
+      const connection = entries[0] as Extract<(typeof entries)[number], { type: 'connection' }>;
+      expect(connection.url).toBe('/stream?call=1');
+      expect(connection.headers['x-plivo-signature-v3']).toBe('[REDACTED]');
+      expect(connection.headers['x-plivo-signature-v3-nonce']).toBe('[REDACTED]');
+      expect(connection.headers['x-custom']).toBe('kept');
+      expect(entries[6]).toMatchObject({ type: 'inbound', message: 'not json' });
+      expect(entries[7]).toMatchObject({ type: 'close', code: 1000, reason: 'bye' });
+
+      const replayer = new PlivoWebSocketServer({ noServer: true, record });
+      const digits: string[] = [];
+      answering(replayer, () => {}).onDtmf((event) => digits.push(event.dtmf.digit));
+      const { sent, recorded } = await replayer.replay(path, { realtime: false });
+      replayer.close();
+
+      expect(digits).toEqual(['5']);
+      expect(sent).toEqual(recorded);
+      expect(sent.map((message: any) => message.event)).toEqual(['playAudio', 'checkpoint']);
+      expect(recordings).toEqual(['recorded']);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('reports a destination function that throws when the call closes before start', async () => {
+    const server = new PlivoWebSocketServer({
+      port: 0,
+      capture: {
+        destination: () => {
+          throw new Error('no capture directory');
+        },
+      },
+    });
+    servers.push(server);
+    const uncaught: unknown[] = [];
+    const onUncaught = (error: unknown) => uncaught.push(error);
+    process.on('uncaughtException', onUncaught);
+    try {
+      const errors: Error[] = [];
+      const closed = new Promise<void>((resolve) => {
+        server
+          .onError((error) => errors.push(error))
+          .onClose(() => resolve())
+          .start();
+      });
+      const ws = await connect(await listening(server));
+      ws.close();
+      await closed;
+
+      expect(errors.map((error) => error.message)).toEqual(['no capture directory']);
+      expect(uncaught).toEqual([]);
+    } finally {
+      process.off('uncaughtException', onUncaught);
+    }
+  });
+
+  test('stops capturing when the destination function throws at start, and the call carries on', async () => {
+    const server = new PlivoWebSocketServer({
+      port: 0,
+      capture: {
+        destination: () => {
+          throw new Error('no capture directory');
+        },
+      },
+    });
+    servers.push(server);
+    const errors: Error[] = [];
+    const events: string[] = [];
+    const closed = new Promise<void>((resolve) => {
+      server
+        .onError((error) => errors.push(error))
+        .onStart(() => events.push('start'))
+        .onClose(() => resolve())
+        .start();
+    });
+    const ws = await connect(await listening(server));
+    ws.send(startMessage());
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    ws.close();
+    await closed;
+
+    expect(events).toEqual(['start']);
+    expect(errors.map((error) => error.message)).toEqual(['no capture directory']);
+  });
+});
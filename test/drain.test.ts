@@ -0,0 +1,106 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { PlivoWebSocketServer, type CloseInfo } from '../src/index.js';
+import { CALL_ID, STREAM_ID, closeServer, connect, listening, startMessage, upgradeStatus } from './helpers.js';
+
+const servers: PlivoWebSocketServer[] = [];
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map(closeServer));
+});
+
+/** A started server whose close reasons are collected as connections end */
+async function drainingServer() {
+  const server = new PlivoWebSocketServer({ port: 0 });
+  servers.push(server);
+  const reasons: CloseInfo['reason'][] = [];
+  server.onClose((ws, session, info) => reasons.push(info.reason)).start();
+  const port = await listening(server);
+  const call = async (start = true) => {
+    const ws = await connect(port);
+    if (start) ws.send(startMessage());
+    const closed = new Promise<[number, string]>((resolve) => {
+      ws.once('close', (code, reason) => resolve([code, reason.toString()]));
+    });
+    return { ws, closed };
+  };
+  // Let the server see the start events
+  const settle = () => new Promise((resolve) => setTimeout(resolve, 30));
+  return { server, port, reasons, call, settle };
+}
+
+describe('PlivoWebSocketServer.drain', () => {
+  test('waits for calls to end, closes the rest at the deadline and refuses new connections', async () => {
+    const { server, port, reasons, call, settle } = await drainingServer();
+    const ending = await call();
+    const lingering = await call();
+    await settle();
+
+    const drained = server.drain({ timeoutMs: 80, closeCode: 4000 });
+    expect(server.drain()).toBe(drained);
+    expect(server.isDraining).toBe(true);
+    expect(await upgradeStatus(port)).toBe(503);
+    setTimeout(() => ending.ws.close(), 20);
+
+    const summary = await drained;
+    expect(summary).toMatchObject({ active: 2, ended: 1, cut: 1 });
+    expect(summary.durationMs).toBeGreaterThanOrEqual(75);
+    expect(await lingering.closed).toEqual([4000, 'Server shutting down']);
+    expect(reasons.sort()).toEqual(['remote', 'shutdown']);
+    expect(server.sessions.size).toBe(0);
+  });
+
+  test('returns as soon as the last call ends, without waiting for the deadline', async () => {
+    const { server, call, settle } = await drainingServer();
+    const { ws } = await call();
+    await settle();
+
+    const drained = server.drain({ timeoutMs: 10000 });
+    ws.close();
+
+    expect(await drained).toMatchObject({ active: 1, ended: 1, cut: 0 });
+  });
+
+  test('plays the goodbye to started calls and closes each once its checkpoint is played', async () => {
+    const { server, call, settle } = await drainingServer();
+    const started = await call();
+    const unstarted = await call(false);
+    await settle();
+    const received: string[] = [];
+    started.ws.on('message', (data) => {
+      const event = JSON.parse(data.toString());
+      received.push(event.event);
+      if (event.event === 'checkpoint') {
+        const played = { event: 'playedStream', sequenceNumber: 1, streamId: STREAM_ID, name: event.name };
+        setTimeout(() => started.ws.send(JSON.stringify(played)), 20);
+      }
+    });
+
+    const goodbye = { contentType: 'audio/x-mulaw' as const, sampleRate: 8000, payload: Buffer.alloc(160, 0xff) };
+    const drained = server.drain({ timeoutMs: 300, goodbye });
+
+    expect(await started.closed).toEqual([1000, 'Goodbye']);
+    expect(received).toEqual(['playAudio', 'checkpoint']);
+    expect(await drained).toMatchObject({ active: 2, ended: 1, cut: 1 });
+    expect(await unstarted.closed).toEqual([1001, 'Server shutting down']);
+  });
+
+  test('awaits a goodbye function before closing the call', async () => {
+    const { server, call, settle } = await drainingServer();
+    const { ws, closed } = await call();
+    await settle();
+    // Whether the socket was still open when each goodbye finished
+    const greeted: [string, boolean][] = [];
+
+    const drained = server.drain({
+      timeoutMs: 1000,
+      goodbye: async (session) => {
+        await new Promise((resolve) => setTimeout(resolve, 30));
+        greeted.push([session.callId!, ws.readyState === ws.OPEN]);
+      },
+    });
+
+    expect(await closed).toEqual([1000, 'Goodbye']);
+    expect(greeted).toEqual([[CALL_ID, true]]);
+    expect((await drained).cut).toBe(0);
+  });
+});
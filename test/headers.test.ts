@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { z } from 'zod';
+import { HeaderValidationError, PlivoWebSocketServer, parseExtraHeaders } from '../src/index.js';
+import { closeServer, connect, listening, startMessage } from './helpers.js';
+
+const servers: PlivoWebSocketServer<any, any>[] = [];
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map(closeServer));
+});
+
+/** The helpers' start event with other extra headers */
+function startWith(extraHeaders: string): string {
+  return JSON.stringify({ ...JSON.parse(startMessage()), extra_headers: extraHeaders });
+}
+
+describe('parseExtraHeaders', () => {
+  test('reads a JSON object, turning its values into strings', () => {
+    expect(parseExtraHeaders(' {"lang":"en","retries":3,"vip":true} ')).toEqual({
+      lang: 'en',
+      retries: '3',
+      vip: 'true',
+    });
+  });
+
+  test('reads comma-separated key=value pairs, decoding URI-encoded values', () => {
+    expect(parseExtraHeaders('X-PH-Lang=en, X-PH-Name=Jane%20Doe,flag,=orphan,bad=%E0%A4%A')).toEqual({
+      'X-PH-Lang': 'en',
+      'X-PH-Name': 'Jane Doe',
+      flag: '',
+      bad: '%E0%A4%A',
+    });
+  });
+
+  test('falls back to pairs for text that only looks like JSON, and ignores blanks', () => {
+    expect(parseExtraHeaders('{broken=1')).toEqual({ '{broken': '1' });
+    expect(parseExtraHeaders('[1,2]')).toEqual({ '[1': '', '2]': '' });
+    expect(parseExtraHeaders('   ')).toEqual({});
+  });
+});
+
+describe('PlivoWebSocketServer headersSchema', () => {
+  const schema = z.object({ lang: z.enum(['en', 'es']), retries: z.coerce.number().default(0) });
+
+  async function start(extraHeaders: string) {
+    const server = new PlivoWebSocketServer({ port: 0, headersSchema: schema });
+    servers.push(server);
+    const started: z.infer<typeof schema>[] = [];
+    const errors: Error[] = [];
+    const closed = new Promise<void>((resolve) => {
+      server
+        .onStart((event, ws, session) => started.push(session.headers!))
+        .onError((error) => errors.push(error))
+        .onClose(() => resolve())
+        .start();
+    });
+    const ws = await connect(await listening(server));
+    ws.send(startWith(extraHeaders));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    ws.close();
+    await closed;
+    return { started, errors };
+  }
+
+  test("makes the schema's output the session headers", async () => {
+    const { started, errors } = await start('lang=es,retries=2');
+
+    expect(errors).toEqual([]);
+    expect(started).toEqual([{ lang: 'es', retries: 2 }]);
+  });
+
+  test('reports headers the schema rejects and does not start the stream', async () => {
+    const { started, errors } = await start('{"lang":"fr"}');
+
+    expect(started).toEqual([]);
+    expect(errors).toHaveLength(1);
+    const error = errors[0] as HeaderValidationError;
+    expect(error).toBeInstanceOf(HeaderValidationError);
+    expect(error.extraHeaders).toBe('{"lang":"fr"}');
+    expect(error.issues[0]!.path).toEqual(['lang']);
+    expect(error.message).toStartWith('Invalid extra headers: lang: ');
+  });
+});
@@ -0,0 +1,100 @@
+import { WebSocket } from 'ws';
+import { get } from 'http';
+import type { AddressInfo } from 'net';
+import type { PlivoWebSocketServer } from '../src/index.js';
+
+export const CALL_ID = '22222222-2222-4222-8222-222222222222';
+export const STREAM_ID = '11111111-1111-4111-8111-111111111111';
+
+export function startMessage(sequenceNumber = 0): string {
+  return JSON.stringify({
+    event: 'start',
+    sequenceNumber,
+    extra_headers: '',
+    start: {
+      callId: CALL_ID,
+      streamId: STREAM_ID,
+      accountId: 'MA000000',
+      tracks: ['inbound'],
+      mediaFormat: { encoding: 'audio/x-mulaw', sampleRate: 8000 },
+    },
+  });
+}
+
+export function mediaMessage(chunk: number, payload: Buffer = Buffer.alloc(160, 0xff)): string {
+  return JSON.stringify({
+    event: 'media',
+    sequenceNumber: chunk + 1,
+    streamId: STREAM_ID,
+    extra_headers: '',
+    media: { track: 'inbound', timestamp: String(chunk * 20), chunk, payload: payload.toString('base64') },
+  });
+}
+
+export function dtmfMessage(digit: string, sequenceNumber = 1): string {
+  return JSON.stringify({
+    event: 'dtmf',
+    sequenceNumber,
+    streamId: STREAM_ID,
+    extra_headers: '',
+    dtmf: { track: 'inbound', digit, timestamp: String(sequenceNumber * 20) },
+  });
+}
+
+/**
+ * Wait for a server created with `port: 0` to listen, returning its port
+ */
+export function listening(server: PlivoWebSocketServer<any, any>): Promise<number> {
+  return new Promise((resolve) => server.once('listening', () => resolve((server.address() as AddressInfo).port)));
+}
+
+export function connect(port: number, path = '/'): Promise<WebSocket> {
+  return new Promise((resolve, reject) => {
+    const ws = new WebSocket(`ws://localhost:${port}${path}`);
+    ws.once('open', () => resolve(ws));
+    ws.once('error', reject);
+  });
+}
+
+/**
+ * The HTTP status a WebSocket upgrade request gets, for upgrades that are refused
+ */
+export function upgradeStatus(port: number, path = '/'): Promise<number | undefined> {
+  return new Promise((resolve, reject) => {
+    const headers = {
+      Connection: 'Upgrade',
+      Upgrade: 'websocket',
+      'Sec-WebSocket-Key': Buffer.alloc(16).toString('base64'),
+      'Sec-WebSocket-Version': '13',
+    };
+    get({ port, path, headers }, (response) => resolve(response.statusCode)).on('error', reject);
+  });
+}
+
+export function closeServer(server: PlivoWebSocketServer<any, any>): Promise<void> {
+  return new Promise((resolve) => server.close(() => resolve()));
+}
+
+/**
+ * Stand-in for a server-side `ws` socket, recording the events sent on it
+ */
+export class FakeSocket {
+  public readonly OPEN = 1;
+  public readyState = 1;
+  public bufferedAmount = 0;
+  public readonly sent: any[] = [];
+  public closed?: { code?: number; reason?: string };
+
+  public send(data: string): void {
+    this.sent.push(JSON.parse(data));
+  }
+
+  public close(code?: number, reason?: string): void {
+    this.readyState = 3;
+    this.closed = { code, reason };
+  }
+
+  public terminate(): void {
+    this.readyState = 3;
+  }
+}
@@ -0,0 +1,138 @@
+import { describe, expect, test } from 'bun:test';
+import type { IncomingMessage } from 'http';
+import type { WebSocket } from 'ws';
+import { PlivoStreamSession, collectDigits, parseInboundEvent, type StartEvent } from '../src/index.js';
+import { FakeSocket, STREAM_ID, startMessage } from './helpers.js';
+
+function ivrSession() {
+  const socket = new FakeSocket();
+  const session = new PlivoStreamSession(socket as unknown as WebSocket, {} as IncomingMessage);
+  session.handleStart(parseInboundEvent(JSON.parse(startMessage())) as StartEvent);
+  const press = (digits: string, track = 'inbound') => {
+    for (const digit of digits) {
+      session.emit('dtmf', {
+        event: 'dtmf',
+        sequenceNumber: 1,
+        streamId: STREAM_ID,
+        dtmf: { track, digit, timestamp: '0' },
+        extra_headers: '',
+      });
+    }
+  };
+  return { socket, session, press };
+}
+
+const prompt = { contentType: 'audio/x-mulaw', sampleRate: 8000, payload: Buffer.alloc(800, 0xff) };
+
+describe('collectDigits', () => {
+  test('stops on the finish key without including it', async () => {
+    const { session, press } = ivrSession();
+    const collected = collectDigits(session);
+    press('12#3');
+
+    expect(await collected).toEqual({ digits: '12', reason: 'finishOnKey', valid: true });
+    expect(session.listenerCount('dtmf')).toBe(0);
+  });
+
+  test('stops at maxDigits or once complete says so, counting # as a digit when it is not the finish key', async () => {
+    const first = ivrSession();
+    const byCount = collectDigits(first.session, { maxDigits: 3, finishOnKey: '' });
+    first.press('9#87');
+    expect(await byCount).toEqual({ digits: '9#8', reason: 'maxDigits', valid: true });
+
+    const second = ivrSession();
+    const byRule = collectDigits(second.session, { complete: (digits) => digits.endsWith('*') });
+    second.press('45*6');
+    expect(await byRule).toEqual({ digits: '45*', reason: 'complete', valid: true });
+  });
+
+  test('times out waiting for the first digit, then for each following one', async () => {
+    const { session, press } = ivrSession();
+    expect(await collectDigits(session, { firstDigitTimeout: 20 })).toEqual({
+      digits: '',
+      reason: 'timeout',
+      valid: false,
+    });
+
+    const started = Date.now();
+    const collected = collectDigits(session, { firstDigitTimeout: 20, interDigitTimeout: 60 });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    press('5');
+    const result = await collected;
+
+    expect(result).toEqual({ digits: '5', reason: 'timeout', valid: true });
+    expect(Date.now() - started).toBeGreaterThanOrEqual(65);
+  });
+
+  test('applies validate, listens on one track if asked and ends on hangup', async () => {
+    const { session, press } = ivrSession();
+    const collected = collectDigits(session, { track: 'inbound', validate: (digits) => digits.length === 4 });
+    press('11', 'outbound');
+    press('22#');
+    expect(await collected).toEqual({ digits: '22', reason: 'finishOnKey', valid: false });
+
+    const pending = collectDigits(session);
+    press('3');
+    session.handleClose({ reason: 'remote', code: 1000, message: '' });
+    expect(await pending).toEqual({ digits: '3', reason: 'hangup', valid: true });
+  });
+});
+
+describe('menu', () => {
+  test('routes as soon as the digits match only one route, cutting the prompt off', async () => {
+    const { socket, session, press } = ivrSession();
+    const routed: string[] = [];
+    const menu = session.menu({
+      prompt,
+      routes: { '1': (digits) => routed.push(digits), '21': (digits) => routed.push(digits), '22': () => {} },
+    });
+    press('2');
+    press('1');
+
+    expect(await menu).toEqual({ digits: '21', attempts: 1, hangup: false });
+    expect(routed).toEqual(['21']);
+    expect(socket.sent.map((event) => event.event)).toEqual(['playAudio', 'clearAudio']);
+  });
+
+  test('retries after invalid input and silence, then gives up', async () => {
+    const { socket, session, press } = ivrSession();
+    const attempts: number[] = [];
+    let failed = false;
+    const menu = session.menu({
+      prompt: (attempt) => {
+        attempts.push(attempt);
+        return undefined;
+      },
+      routes: { '1': () => {} },
+      invalidPrompt: prompt,
+      retries: 1,
+      collect: { firstDigitTimeout: 30 },
+      onFailure: () => {
+        failed = true;
+      },
+    });
+    press('9');
+
+    expect(await menu).toEqual({ attempts: 2, hangup: false });
+    expect(attempts).toEqual([1, 2]);
+    expect(failed).toBe(true);
+    // The invalid prompt plays between attempts, not after the last one
+    expect(socket.sent.filter((event) => event.event === 'playAudio')).toHaveLength(1);
+  });
+
+  test('waits for the prompt to play before collecting when barge-in is off', async () => {
+    const { socket, session, press } = ivrSession();
+    const menu = session.menu({ prompt, routes: { '3': () => {} }, bargeIn: false });
+    // Pressed during the prompt, so not collected
+    press('3');
+    const checkpoint = socket.sent.find((event) => event.event === 'checkpoint');
+    expect(checkpoint).toMatchObject({ name: 'menu-prompt-1' });
+    const { name } = checkpoint;
+    session.handlePlayedStream({ event: 'playedStream', sequenceNumber: 2, streamId: STREAM_ID, name });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    press('3');
+
+    expect(await menu).toEqual({ digits: '3', attempts: 1, hangup: false });
+    expect(socket.sent.map((event) => event.event)).not.toContain('clearAudio');
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, expect, test } from 'bun:test';
+import { JitterBuffer, MediaFrame, PlivoWebSocketServer, type MediaEvent } from '../src/index.js';
+import { STREAM_ID, closeServer, connect, listening, mediaMessage, startMessage } from './helpers.js';
+
+const mulaw = { encoding: 'audio/x-mulaw', sampleRate: 8000 };
+
+function frame(chunk: number, track = 'inbound'): MediaEvent {
+  return new MediaFrame({
+    event: 'media',
+    sequenceNumber: chunk + 1,
+    streamId: STREAM_ID,
+    extra_headers: '',
+    media: { track, timestamp: String(chunk * 20), chunk, payload: Buffer.alloc(160, 0x10).toString('base64') },
+  });
+}
+
+/** A buffer recording what it delivers as `track:chunk`, with `*` marking silence fillers */
+function buffer(options: ConstructorParameters<typeof JitterBuffer>[2] = {}) {
+  const delivered: string[] = [];
+  const jitter = new JitterBuffer(
+    (event) => delivered.push(`${event.media.track}:${event.media.chunk}${event.synthetic ? '*' : ''}`),
+    () => mulaw,
+    { maxDelayMs: 60_000, ...options },
+  );
+  return { jitter, delivered };
+}
+
+describe('JitterBuffer', () => {
+  test('orders each track on its own and counts reordering and duplicates', () => {
+    const { jitter, delivered } = buffer();
+    for (const [chunk, track] of [
+      [0, 'inbound'],
+      [0, 'outbound'],
+      [2, 'inbound'],
+      [1, 'outbound'],
+      [1, 'inbound'],
+      [1, 'inbound'],
+      [2, 'inbound'],
+    ] as const) {
+      jitter.push(frame(chunk, track));
+    }
+
+    expect(delivered).toEqual(['inbound:0', 'outbound:0', 'outbound:1', 'inbound:1', 'inbound:2']);
+    expect(jitter.stats).toMatchObject({ received: 7, delivered: 5, reordered: 1, duplicated: 2, lost: 0 });
+  });
+
+  test('skips a missing frame once depth frames are held, then drops it as late', () => {
+    const { jitter, delivered } = buffer({ depth: 2 });
+    for (const chunk of [0, 2, 3, 4, 1]) jitter.push(frame(chunk));
+
+    expect(delivered).toEqual(['inbound:0', 'inbound:2', 'inbound:3', 'inbound:4']);
+    expect(jitter.stats).toMatchObject({ lost: 1, late: 1, filled: 0 });
+  });
+
+  test('fills lost frames with silence in the stream encoding', () => {
+    const delivered: MediaEvent[] = [];
+    const jitter = new JitterBuffer((event) => delivered.push(event), () => mulaw, { depth: 1, fillGaps: true });
+    for (const chunk of [0, 3, 4]) jitter.push(frame(chunk));
+
+    expect(delivered.map((event) => event.media.chunk)).toEqual([0, 1, 2, 3, 4]);
+    expect(delivered[1]!.synthetic).toBe(true);
+    expect(delivered[1]!.getRawMedia()).toEqual(Buffer.alloc(160, 0xff));
+    expect(jitter.stats).toMatchObject({ lost: 2, filled: 2, delivered: 5 });
+  });
+
+  test('gives up on a missing frame after maxDelayMs', async () => {
+    const { jitter, delivered } = buffer({ maxDelayMs: 20 });
+    jitter.push(frame(0));
+    jitter.push(frame(2));
+    expect(delivered).toEqual(['inbound:0']);
+
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    expect(delivered).toEqual(['inbound:0', 'inbound:2']);
+    expect(jitter.stats.lost).toBe(1);
+  });
+
+  test('treats a bogus chunk number as one discontinuity instead of filling the gap', () => {
+    const { jitter, delivered } = buffer({ depth: 1, fillGaps: true });
+    jitter.push(frame(0));
+    jitter.push(frame(2 ** 31));
+    jitter.push(frame(2 ** 31 + 1));
+    // Numbering carries on where it was, far behind the bogus frame
+    jitter.push(frame(1));
+    jitter.push(frame(2));
+
+    expect(delivered).toEqual(['inbound:0', `inbound:${2 ** 31}`, `inbound:${2 ** 31 + 1}`, 'inbound:1', 'inbound:2']);
+    expect(jitter.stats).toMatchObject({ lost: 0, filled: 0, late: 0, discontinuities: 2 });
+  });
+
+  test('still counts a gap within maxGap as loss', () => {
+    const { jitter } = buffer({ depth: 1, maxGap: 3 });
+    for (const chunk of [0, 4, 5]) jitter.push(frame(chunk));
+    expect(jitter.stats).toMatchObject({ lost: 3, discontinuities: 0 });
+
+    jitter.push(frame(10));
+    jitter.push(frame(11));
+    expect(jitter.stats).toMatchObject({ lost: 3, discontinuities: 1 });
+  });
+});
+
+
+describe('jitter buffer on the server', () => {
+  test('frames still held when the connection closes reach onMedia before onClose', async () => {
+    const server = new PlivoWebSocketServer({ port: 0, jitterBuffer: { maxDelayMs: 10000 } });
+    const seen: string[] = [];
+    const closed = new Promise<void>((resolve) => {
+      server
+        .onMedia((event) => seen.push(`media:${event.media.chunk}`))
+        .onClose(() => {
+          seen.push('close');
+          resolve();
+        })
+        .start();
+    });
+    const ws = await connect(await listening(server));
+
+    ws.send(startMessage());
+    ws.send(mediaMessage(0));
+    // Chunk 1 is missing, so chunk 2 is held until the gap times out or the call ends
+    ws.send(mediaMessage(2));
+    ws.close();
+    await closed;
+
+    expect(seen).toEqual(['media:0', 'media:2', 'close']);
+    await closeServer(server);
+  });
+
+  test('reorders frames that arrive out of order', async () => {
+    const server = new PlivoWebSocketServer({ port: 0, jitterBuffer: true });
+    const chunks: number[] = [];
+    const closed = new Promise<void>((resolve) => {
+      server
+        .onMedia((event) => chunks.push(event.media.chunk))
+        .onClose(() => resolve())
+        .start();
+    });
+    const ws = await connect(await listening(server));
+
+    ws.send(startMessage());
+    for (const chunk of [0, 2, 1, 3]) ws.send(mediaMessage(chunk));
+    ws.close();
+    await closed;
+
+    expect(chunks).toEqual([0, 1, 2, 3]);
+    await closeServer(server);
+  });
+});
@@ -0,0 +1,127 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { EventEmitter } from 'events';
+import { LivenessMonitor, PlivoWebSocketServer, type CloseInfo, type PlivoStreamSession } from '../src/index.js';
+import { closeServer, connect, listening, startMessage } from './helpers.js';
+
+const servers: PlivoWebSocketServer[] = [];
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map(closeServer));
+});
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Just enough of a session for the monitor: its events, a socket to ping and a record of closeFor calls */
+class FakeSession extends EventEmitter {
+  public readonly ws = Object.assign(new EventEmitter(), {
+    pings: 0,
+    ping: () => {
+      this.ws.pings++;
+    },
+  });
+  public readonly closes: unknown[][] = [];
+  public isStarted = false;
+  public isActive = true;
+
+  public closeFor(...args: unknown[]): void {
+    this.closes.push(args);
+  }
+}
+
+function monitor(options: ConstructorParameters<typeof LivenessMonitor>[1]) {
+  const session = new FakeSession();
+  const liveness = new LivenessMonitor(session as unknown as PlivoStreamSession, options);
+  return { session, liveness };
+}
+
+describe('LivenessMonitor', () => {
+  test('closes a connection that never sends a start event with 1008', async () => {
+    const server = new PlivoWebSocketServer({ port: 0, liveness: { startTimeoutMs: 30 } });
+    servers.push(server);
+    const closed = new Promise<CloseInfo>((resolve) => {
+      server.onClose((ws, session, info) => resolve(info)).start();
+    });
+    const ws = await connect(await listening(server));
+    const code = await new Promise((resolve) => ws.once('close', resolve));
+
+    expect(code).toBe(1008);
+    expect((await closed).reason).toBe('startTimeout');
+  });
+
+  test('terminates a peer that stops answering pings, but keeps one that answers', async () => {
+    const silent = monitor({ pingIntervalMs: 20 });
+    await wait(30);
+    expect(silent.session.ws.pings).toBe(1);
+    expect(silent.session.closes).toEqual([]);
+    await wait(20);
+    silent.liveness.dispose();
+    // No code, so the socket is terminated rather than closed
+    expect(silent.session.closes).toEqual([['pingTimeout']]);
+
+    const { session, liveness } = monitor({ pingIntervalMs: 20 });
+    session.ws.ping = () => session.ws.emit('pong');
+    await wait(90);
+    liveness.dispose();
+    expect(session.closes).toEqual([]);
+  });
+
+  test('only starts the start timeout when the stream has not started yet, and cancels it on start', async () => {
+    const early = monitor({ startTimeoutMs: 20 });
+    early.session.emit('start');
+
+    const already = new FakeSession();
+    already.isStarted = true;
+    new LivenessMonitor(already as unknown as PlivoStreamSession, { startTimeoutMs: 20 });
+    await wait(40);
+
+    expect(early.session.closes).toEqual([]);
+    expect(already.closes).toEqual([]);
+  });
+
+  test('ends the call maxDurationMs after start, however much media arrives', async () => {
+    const { session } = monitor({ maxDurationMs: 40 });
+    await wait(30);
+    expect(session.closes).toEqual([]);
+
+    session.emit('start');
+    for (let i = 0; i < 3; i++) {
+      await wait(10);
+      session.emit('media');
+    }
+    expect(session.closes).toEqual([]);
+    await wait(20);
+
+    expect(session.closes).toEqual([['maxDuration', 1000, 'Maximum call duration reached']]);
+  });
+
+  test('stops every timer and listener on close', async () => {
+    const { session } = monitor({ pingIntervalMs: 10, startTimeoutMs: 10, mediaTimeoutMs: 10, maxDurationMs: 10 });
+    session.emit('close');
+    await wait(30);
+
+    expect(session.ws.pings).toBe(0);
+    expect(session.closes).toEqual([]);
+    expect(session.listenerCount('start') + session.listenerCount('media') + session.ws.listenerCount('pong')).toBe(0);
+  });
+
+  test('reports a throwing onMediaTimeout handler through onError and still closes the connection', async () => {
+    const server = new PlivoWebSocketServer({ port: 0, liveness: { mediaTimeoutMs: 50 } });
+    servers.push(server);
+    const errors: Error[] = [];
+    const closed = new Promise<CloseInfo>((resolve) => {
+      server
+        .onMediaTimeout(() => {
+          throw new Error('handler failed');
+        })
+        .onError((error) => errors.push(error))
+        .onClose((ws, session, info) => resolve(info))
+        .start();
+    });
+    const ws = await connect(await listening(server));
+    ws.send(startMessage());
+
+    const info = await closed;
+    expect(info.reason).toBe('mediaTimeout');
+    expect(errors.map((error) => error.message)).toEqual(['handler failed']);
+  });
+});
@@ -0,0 +1,113 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { PlivoWebSocketServer, createLogger, redact, type Logger } from '../src/index.js';
+import { CALL_ID, STREAM_ID, closeServer, connect, listening, mediaMessage, startMessage } from './helpers.js';
+
+const servers: PlivoWebSocketServer[] = [];
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map(closeServer));
+});
+
+type Entry = { level: string; fields: Record<string, unknown>; message?: string };
+
+/** A logger without `child`, collecting entries */
+function memoryLogger(entries: Entry[]): Logger {
+  const at =
+    (level: string) =>
+    (fields: Record<string, unknown>, message?: string) =>
+      entries.push({ level, fields, message });
+  return { debug: at('debug'), info: at('info'), warn: at('warn'), error: at('error') };
+}
+
+describe('redact', () => {
+  test('replaces secrets by key at any depth and summarises binary data', () => {
+    const input = {
+      authToken: 'abc',
+      headers: { 'x-plivo-signature-v3': 'sig', Cookie: 'c', host: 'example.com' },
+      media: [{ payload: 'AAAA', chunk: 1 }],
+      audio: Buffer.alloc(4),
+      samples: new Int16Array(3),
+    };
+
+    expect(redact(input)).toEqual({
+      authToken: '[REDACTED]',
+      headers: { 'x-plivo-signature-v3': '[REDACTED]', Cookie: '[REDACTED]', host: 'example.com' },
+      media: [{ payload: '[REDACTED]', chunk: 1 }],
+      audio: '[4 bytes]',
+      samples: '[6 bytes]',
+    });
+    expect(input.authToken).toBe('abc');
+  });
+
+  test('passes primitives and errors through and stops at five levels', () => {
+    const error = new Error('boom');
+
+    expect(redact('text')).toBe('text');
+    expect(redact(null)).toBeNull();
+    expect(redact(error)).toBe(error);
+    expect(redact({ a: { b: { c: { d: { e: { f: 1 } } } } } })).toEqual({ a: { b: { c: { d: { e: '[Object]' } } } } });
+  });
+});
+
+describe('createLogger', () => {
+  test('is silent without a target and wraps a logger only once', () => {
+    const silent = createLogger();
+    silent.info({ authToken: 'abc' }, 'nothing happens');
+
+    expect(createLogger(silent)).toBe(silent);
+  });
+
+  test('merges child bindings itself when the target has no child, logging trace as debug', () => {
+    const entries: Entry[] = [];
+    const log = createLogger(memoryLogger(entries)).child({ callId: 'c1' }).child({ nonce: 'n' });
+    log.trace({ step: 1 }, 'tracing');
+    log.warn({ streamId: 's1', callId: 'override' });
+
+    expect(entries).toEqual([
+      { level: 'debug', fields: { callId: 'c1', nonce: '[REDACTED]', step: 1 }, message: 'tracing' },
+      { level: 'warn', fields: { callId: 'override', nonce: '[REDACTED]', streamId: 's1' }, message: undefined },
+    ]);
+  });
+
+  test("hands redacted bindings to the target's own child", () => {
+    const bindings: Record<string, unknown>[] = [];
+    const entries: Entry[] = [];
+    const target: Logger = {
+      ...memoryLogger(entries),
+      child: (values) => {
+        bindings.push(values);
+        return memoryLogger(entries);
+      },
+    };
+    createLogger(target).child({ callId: 'c1', signature: 's' }).error({ password: 'p' }, 'failed');
+
+    expect(bindings).toEqual([{ callId: 'c1', signature: '[REDACTED]' }]);
+    expect(entries).toEqual([{ level: 'error', fields: { password: '[REDACTED]' }, message: 'failed' }]);
+  });
+});
+
+describe('PlivoWebSocketServer logging', () => {
+  test('binds each stream to its callId and streamId and never logs media payloads', async () => {
+    const entries: Entry[] = [];
+    const server = new PlivoWebSocketServer({ port: 0, logger: memoryLogger(entries) });
+    servers.push(server);
+    const closed = new Promise<void>((resolve) => {
+      server
+        .onMedia((event, ws, session) => session.logger.info({ media: event.media }, 'Media'))
+        .onClose(() => resolve())
+        .start();
+    });
+    const ws = await connect(await listening(server));
+    ws.send(startMessage());
+    ws.send(mediaMessage(0));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    ws.close();
+    await closed;
+
+    const byMessage = new Map(entries.map((entry) => [entry.message, entry]));
+    expect(byMessage.get('Connection accepted')?.fields.callId).toBeUndefined();
+    expect(byMessage.get('Stream started')?.fields).toMatchObject({ callId: CALL_ID, streamId: STREAM_ID });
+    expect(byMessage.get('Media')?.fields.media).toMatchObject({ chunk: 0, payload: '[REDACTED]' });
+    expect(byMessage.get('Stream closed')?.fields).toMatchObject({ callId: CALL_ID, reason: 'remote' });
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, test } from 'bun:test';
+import { MediaFrame, parseInboundEvent } from '../src/index.js';
+import { encodePlayAudio } from '../src/types.js';
+import { parseMediaMessage } from '../src/validation.js';
+
+const STREAM_ID = '11111111-1111-4111-8111-111111111111';
+const payload = Buffer.from([0, 1, 2, 0xfe, 0xff]).toString('base64');
+
+const frame = {
+  sequenceNumber: 7,
+  streamId: STREAM_ID,
+  event: 'media',
+  media: { track: 'inbound', timestamp: '140', chunk: 6, payload },
+  extra_headers: '{"agent":"a\\"b"}',
+};
+
+describe('parseMediaMessage', () => {
+  test('reads a compact frame into the same MediaFrame JSON.parse would give', () => {
+    const parsed = parseMediaMessage(JSON.stringify(frame), STREAM_ID);
+
+    expect(parsed).toBeInstanceOf(MediaFrame);
+    expect({ ...parsed }).toEqual({ ...frame, event: 'media', mediaFormat: undefined, synthetic: false });
+    expect(parsed!.getRawMedia()).toEqual(Buffer.from([0, 1, 2, 0xfe, 0xff]));
+  });
+
+  test('leaves other layouts, other streams and other events to the regular path', () => {
+    const { event, ...rest } = frame;
+
+    expect(parseMediaMessage(JSON.stringify({ event, ...rest }), STREAM_ID)).toBeUndefined();
+    expect(parseMediaMessage(JSON.stringify(frame, null, 1), STREAM_ID)).toBeUndefined();
+    expect(parseMediaMessage(JSON.stringify(frame), '22222222-2222-4222-8222-222222222222')).toBeUndefined();
+    expect(parseMediaMessage(JSON.stringify(frame), undefined)).toBeUndefined();
+    expect(parseMediaMessage(JSON.stringify({ ...frame, event: 'dtmf' }), STREAM_ID)).toBeUndefined();
+    expect(parseMediaMessage(JSON.stringify({ ...frame, sequenceNumber: '7' }), STREAM_ID)).toBeUndefined();
+  });
+});
+
+describe('parseInboundEvent media fast path', () => {
+  test('skips the schema only for frames of the session stream', () => {
+    expect(parseInboundEvent(frame as any, 'strict', STREAM_ID)).toBeInstanceOf(MediaFrame);
+    // Without the session's streamId the schema runs, and rejects what it would always have rejected
+    expect(() => parseInboundEvent({ ...frame, streamId: 'not-a-uuid' } as any, 'strict')).toThrow();
+  });
+});
+
+describe('MediaFrame', () => {
+  test('decodes the payload once and again after it is replaced', () => {
+    const event = new MediaFrame(frame as any);
+
+    expect(event.getRawMedia()).toBe(event.getRawMedia());
+    event.media.payload = Buffer.from([9]).toString('base64');
+    expect(event.getRawMedia()).toEqual(Buffer.from([9]));
+  });
+});
+
+describe('encodePlayAudio', () => {
+  test('matches JSON.stringify of the playAudio event', () => {
+    expect(JSON.parse(encodePlayAudio('audio/x-l16', 16000, payload))).toEqual({
+      event: 'playAudio',
+      media: { contentType: 'audio/x-l16', sampleRate: 16000, payload },
+    });
+    expect(encodePlayAudio('a"b', 8000, payload)).toBe(
+      JSON.stringify({ event: 'playAudio', media: { contentType: 'a"b', sampleRate: 8000, payload } }),
+    );
+  });
+});
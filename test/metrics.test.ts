@@ -0,0 +1,143 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import {
+  Histogram,
+  PlivoWebSocketServer,
+  ServerMetrics,
+  SessionMetrics,
+  renderPrometheus,
+  type PlivoStreamSession,
+} from '../src/index.js';
+import { closeServer, connect, listening, mediaMessage, startMessage } from './helpers.js';
+
+const servers: PlivoWebSocketServer[] = [];
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map(closeServer));
+});
+
+/** The sample lines of a Prometheus text page, without HELP and TYPE comments */
+const samples = (text: string) => text.split('\n').filter((line) => line && !line.startsWith('#'));
+
+describe('Histogram', () => {
+  test('counts each observation in every bucket whose bound it does not exceed', () => {
+    const histogram = new Histogram([10, 100]);
+    for (const ms of [5, 10, 50, 500]) histogram.observe(ms);
+
+    expect(histogram.snapshot()).toEqual({
+      buckets: [
+        { le: 10, count: 2 },
+        { le: 100, count: 3 },
+      ],
+      count: 4,
+      sumMs: 565,
+    });
+  });
+});
+
+describe('renderPrometheus', () => {
+  test('renders gauges, labelled counters and histograms in seconds', () => {
+    const server = new ServerMetrics();
+    const stream = new SessionMetrics(server);
+    server.recordConnection();
+    server.recordConnection();
+    server.recordRejected('expired');
+    stream.recordStart();
+    stream.recordMedia('inbound', 160);
+    stream.recordMedia('inbound', 160);
+    stream.recordMedia('outbound', 320);
+    stream.recordError('media');
+    stream.recordCheckpointRtt(120);
+
+    const text = server.toPrometheus();
+    expect(text).toEndWith('\n');
+    expect(text).toContain('# HELP plivo_stream_active_streams Open stream connections\n');
+    expect(text).toContain('# TYPE plivo_stream_checkpoint_rtt_seconds histogram\n');
+    expect(samples(text)).toEqual(
+      expect.arrayContaining([
+        'plivo_stream_active_streams 2',
+        'plivo_stream_started_streams 1',
+        'plivo_stream_connections_total 2',
+        'plivo_stream_rejected_connections_total{reason="expired"} 1',
+        'plivo_stream_media_frames_total{direction="inbound"} 2',
+        'plivo_stream_media_bytes_total{direction="outbound"} 320',
+        'plivo_stream_event_errors_total{event="media"} 1',
+        'plivo_stream_checkpoint_rtt_seconds_bucket{le="0.1"} 0',
+        'plivo_stream_checkpoint_rtt_seconds_bucket{le="0.25"} 1',
+        'plivo_stream_checkpoint_rtt_seconds_bucket{le="+Inf"} 1',
+        'plivo_stream_checkpoint_rtt_seconds_sum 0.12',
+        'plivo_stream_checkpoint_rtt_seconds_count 1',
+        'plivo_stream_call_duration_seconds_count 0',
+      ]),
+    );
+  });
+
+  test('applies the prefix to every metric and escapes label values', () => {
+    const snapshot = new ServerMetrics().snapshot();
+    snapshot.errors = { 'say "hi"\\\n': 3 };
+    const text = renderPrometheus(snapshot, 'ivr_');
+
+    expect(text.split('\n').filter((line) => line && !/^(# (HELP|TYPE) )?ivr_/.test(line))).toEqual([]);
+    expect(text).toContain('ivr_event_errors_total{event="say \\"hi\\"\\\\\\n"} 3\n');
+    // Labelled metrics without values keep their HELP and TYPE lines
+    expect(text).toContain('# TYPE ivr_rejected_connections_total counter\n# HELP ivr_media_frames_total');
+  });
+});
+
+describe('SessionMetrics', () => {
+  test('fixes the call duration at close and reports it to the server once', async () => {
+    const server = new ServerMetrics();
+    server.recordConnection();
+    const stream = new SessionMetrics(server);
+    expect(stream.durationMs).toBeUndefined();
+
+    stream.recordStart();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    stream.recordClose();
+    const duration = stream.durationMs!;
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    stream.recordClose();
+
+    expect(duration).toBeGreaterThanOrEqual(15);
+    expect(stream.durationMs).toBe(duration);
+    expect(server.snapshot()).toMatchObject({
+      activeStreams: 0,
+      startedStreams: 0,
+      callDurationMs: { count: 1, sumMs: duration },
+    });
+  });
+});
+
+describe('PlivoWebSocketServer.metrics', () => {
+  test('counts connections, media and invalid messages of real streams', async () => {
+    const server = new PlivoWebSocketServer({ port: 0 });
+    servers.push(server);
+    const sessions: PlivoStreamSession[] = [];
+    const closed = new Promise<void>((resolve) => {
+      server
+        .onStart((event, ws, session) => sessions.push(session))
+        .onError(() => {})
+        .onClose(() => resolve())
+        .start();
+    });
+    const ws = await connect(await listening(server));
+    ws.send(startMessage());
+    ws.send(mediaMessage(0));
+    ws.send(mediaMessage(1, Buffer.alloc(80, 0xff)));
+    ws.send(JSON.stringify({ event: 'media', sequenceNumber: 3 }));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(server.metrics.snapshot()).toMatchObject({ activeStreams: 1, startedStreams: 1, connectionsTotal: 1 });
+    ws.close();
+    await closed;
+
+    const snapshot = server.metrics.snapshot();
+    expect(snapshot).toMatchObject({
+      activeStreams: 0,
+      startedStreams: 0,
+      inbound: { frames: 2 },
+      errors: { media: 1 },
+      callDurationMs: { count: 1 },
+    });
+    expect(sessions[0]!.metrics.snapshot().inbound).toEqual(snapshot.inbound);
+  });
+});
@@ -0,0 +1,120 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { PlivoWebSocketServer, type CloseInfo } from '../src/index.js';
+import { closeServer, connect, dtmfMessage, listening, startMessage } from './helpers.js';
+
+const servers: PlivoWebSocketServer[] = [];
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map(closeServer));
+});
+
+/**
+ * Send a start event and the given digits through `server`, then close, resolving once onClose has run
+ */
+async function call(server: PlivoWebSocketServer, digits: string[]): Promise<CloseInfo> {
+  servers.push(server);
+  const closed = new Promise<CloseInfo>((resolve) => server.onClose((ws, session, info) => resolve(info)).start());
+  const ws = await connect(await listening(server));
+  ws.send(startMessage());
+  digits.forEach((digit, i) => ws.send(dtmfMessage(digit, i + 1)));
+  ws.close();
+  return closed;
+}
+
+describe('middleware', () => {
+  test('runs in registration order around the handlers, one event at a time', async () => {
+    const server = new PlivoWebSocketServer({ port: 0 });
+    const trace: string[] = [];
+    server
+      .use(async ({ event }, next) => {
+        trace.push(`outer>${event.event}`);
+        await next();
+        trace.push(`outer<${event.event}`);
+      })
+      .use(async ({ event }, next) => {
+        // Slow for the start event only; the dtmf behind it must still wait its turn
+        if (event.event === 'start') await new Promise((resolve) => setTimeout(resolve, 20));
+        trace.push(`inner>${event.event}`);
+        await next();
+      })
+      .onStart(() => trace.push('handler:start'))
+      .onDtmf(() => trace.push('handler:dtmf'));
+
+    await call(server, ['1']);
+
+    expect(trace).toEqual([
+      'outer>start',
+      'inner>start',
+      'handler:start',
+      'outer<start',
+      'outer>dtmf',
+      'inner>dtmf',
+      'handler:dtmf',
+      'outer<dtmf',
+    ]);
+  });
+
+  test('drops events whose middleware does not call next, and passes on replaced events', async () => {
+    const server = new PlivoWebSocketServer({ port: 0 });
+    const digits: string[] = [];
+    server
+      .use((context, next) => {
+        if (context.direction !== 'inbound' || context.event.event !== 'dtmf') return next();
+        if (context.event.dtmf.digit === '*') return;
+        context.event = { ...context.event, dtmf: { ...context.event.dtmf, digit: `#${context.event.dtmf.digit}` } };
+        return next();
+      })
+      .onDtmf((event) => digits.push(event.dtmf.digit));
+
+    await call(server, ['1', '*', '2']);
+
+    expect(digits).toEqual(['#1', '#2']);
+  });
+
+  test('sees and can rewrite outbound events', async () => {
+    const server = new PlivoWebSocketServer({ port: 0 });
+    const outbound: string[] = [];
+    servers.push(server);
+    server
+      .use((context, next) => {
+        if (context.direction === 'outbound' && context.event.event === 'checkpoint') {
+          outbound.push(context.event.name);
+          context.event = { ...context.event, name: `tagged-${context.event.name}` };
+        }
+        return next();
+      })
+      .onStart((event, ws, session) => {
+        session.checkpoint('greeting').catch(() => {});
+      })
+      .start();
+    const ws = await connect(await listening(server));
+    const sent = new Promise<any>((resolve) => ws.on('message', (data) => resolve(JSON.parse(data.toString()))));
+    ws.send(startMessage());
+
+    expect(await sent).toMatchObject({ event: 'checkpoint', name: 'tagged-greeting' });
+    expect(outbound).toEqual(['greeting']);
+    ws.close();
+  });
+
+  test('reports a failing middleware and keeps processing, even when onError throws', async () => {
+    const server = new PlivoWebSocketServer({ port: 0 });
+    const errors: string[] = [];
+    const digits: string[] = [];
+    server
+      .use(({ event }, next) => {
+        if (event.event === 'dtmf' && event.dtmf.digit === '1') throw new Error('bad digit');
+        return next();
+      })
+      .onError((error) => {
+        errors.push(error.message);
+        throw new Error('error handler failed');
+      })
+      .onDtmf((event) => digits.push(event.dtmf.digit));
+
+    const info = await call(server, ['1', '2']);
+
+    expect(errors).toEqual(['Middleware failed: bad digit']);
+    expect(digits).toEqual(['2']);
+    expect(info.reason).toBe('remote');
+  });
+});
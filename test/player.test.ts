@@ -0,0 +1,99 @@
+import { describe, expect, test } from 'bun:test';
+import { AudioFormatError, AudioPlayer, type PlivoStreamSession } from '../src/index.js';
+
+/** The parts of a session the player uses, recording each frame it sends */
+function fakeSession() {
+  const frames: { contentType: string; bytes: number }[] = [];
+  const session = {
+    isActive: true,
+    ws: { bufferedAmount: 0 },
+    mediaFormat: { encoding: 'audio/x-mulaw', sampleRate: 8000 },
+    playAudio: (contentType: string, sampleRate: number, payload: Buffer) =>
+      frames.push({ contentType, bytes: payload.length }),
+  };
+  const player = (options = {}) => new AudioPlayer(session as unknown as PlivoStreamSession, options);
+  return { frames, session, player };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('AudioPlayer', () => {
+  test('sends whole frames no further than leadMs ahead, then keeps pace with real time', async () => {
+    const { frames, player } = fakeSession();
+    const audio = player({ leadMs: 100 });
+    const done = audio.enqueue('audio/x-mulaw', 8000, Buffer.alloc(8000, 0xff));
+
+    // 100 ms of lead is five 20 ms frames of 160 bytes (six if the clock ticks meanwhile)
+    expect(frames.length === 5 || frames.length === 6).toBe(true);
+    expect(frames[0]).toEqual({ contentType: 'audio/x-mulaw', bytes: 160 });
+    expect(audio.isPlaying).toBe(true);
+    expect(audio.queuedMs).toBe(1000 - frames.length * 20);
+    expect(audio.bufferedMs).toBeGreaterThan(80);
+
+    await sleep(100);
+    expect(frames.length).toBeGreaterThanOrEqual(9);
+    expect(frames.length).toBeLessThanOrEqual(12);
+
+    audio.clear();
+    expect(await done).toBe(false);
+  });
+
+  test('waits while the socket buffer is over maxBufferedBytes', async () => {
+    const { frames, session, player } = fakeSession();
+    session.ws.bufferedAmount = 2000;
+    const audio = player({ maxBufferedBytes: 1000, frameDurationMs: 10 });
+    const done = audio.enqueue('audio/x-l16', 16000, Buffer.alloc(640));
+
+    await sleep(30);
+    expect(frames).toEqual([]);
+
+    session.ws.bufferedAmount = 0;
+    expect(await done).toBe(true);
+    expect(frames).toEqual(Array(2).fill({ contentType: 'audio/x-l16', bytes: 320 }));
+  });
+
+  test('fills frames across chunks of the same format only', async () => {
+    const { frames, session, player } = fakeSession();
+    // Hold the first chunk back so the rest queue up behind it
+    session.ws.bufferedAmount = Infinity;
+    const audio = player();
+    const chunks = [
+      audio.enqueue('audio/x-mulaw', 8000, new Uint8Array(100)),
+      audio.enqueue('audio/x-mulaw', 8000, new Uint8Array(100).buffer),
+      audio.enqueue('audio/x-alaw', 8000, Buffer.alloc(100)),
+    ];
+    session.ws.bufferedAmount = 0;
+
+    expect(await Promise.all(chunks)).toEqual([true, true, true]);
+    expect(frames.map(({ bytes }) => bytes)).toEqual([160, 40, 100]);
+  });
+
+  test('runs markers in order with the audio around them, and drops them when cleared', async () => {
+    const { frames, player } = fakeSession();
+    const audio = player({ leadMs: 20 });
+    const order: string[] = [];
+    audio.enqueue('audio/x-mulaw', 8000, Buffer.alloc(160));
+    const first = audio.enqueueMarker(() => order.push(`first after ${frames.length}`));
+    audio.enqueue('audio/x-mulaw', 8000, Buffer.alloc(1600));
+    const second = audio.enqueueMarker(() => order.push('second'));
+
+    expect(await first).toBe(true);
+    audio.clear();
+
+    expect(await second).toBe(false);
+    expect(order).toEqual(['first after 1']);
+    expect(audio.isPlaying).toBe(false);
+  });
+
+  test('drops its queue once the session closes, and checks formats up front', async () => {
+    const { frames, session, player } = fakeSession();
+    const audio = player({ leadMs: 20 });
+    const done = audio.enqueuePcm16(Buffer.alloc(3200), 16000);
+    session.isActive = false;
+
+    expect(await done).toBe(false);
+    expect(frames).toHaveLength(1);
+    expect(() => audio.enqueue('audio/opus', 8000, Buffer.alloc(1))).toThrow(AudioFormatError);
+    expect(() => audio.enqueue('audio/x-mulaw', 0, Buffer.alloc(1))).toThrow('Invalid sample rate: 0');
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, test } from 'bun:test';
+import type { IncomingMessage } from 'http';
+import type { WebSocket } from 'ws';
+import { PlivoStreamSession, parseInboundEvent, type StartEvent, type Utterance } from '../src/index.js';
+import { FakeSocket, STREAM_ID, startMessage } from './helpers.js';
+
+/** 200 ms of mu-law silence */
+const audio = () => Buffer.alloc(1600, 0xff);
+
+/**
+ * A session on a fake socket whose queue can be driven by acknowledging its checkpoints by hand
+ */
+function queueSession(started = true) {
+  const socket = new FakeSocket();
+  const session = new PlivoStreamSession(socket as unknown as WebSocket, {} as IncomingMessage);
+  if (started) session.handleStart(parseInboundEvent(JSON.parse(startMessage())) as StartEvent);
+  const checkpoints = () => socket.sent.filter((event) => event.event === 'checkpoint').map((event) => event.name);
+  const ack = (name: string) => {
+    session.handlePlayedStream({ event: 'playedStream', sequenceNumber: 1, streamId: STREAM_ID, name });
+    return new Promise((resolve) => setTimeout(resolve, 0));
+  };
+  const cleared = () => {
+    const event = { event: 'clearedAudio' as const, sequenceNumber: 2, streamId: STREAM_ID };
+    session.handleClearedAudio(event);
+    session.emit('clearedAudio', event);
+    return new Promise((resolve) => setTimeout(resolve, 0));
+  };
+  return { socket, session, queue: session.queue, checkpoints, ack, cleared };
+}
+
+describe('PlaybackQueue', () => {
+  test('brackets each utterance with checkpoints and follows it from queued to played', async () => {
+    const { queue, checkpoints, ack } = queueSession();
+    const states: string[] = [];
+    queue.on('stateChange', (utterance) => states.push(`${utterance.id}:${utterance.state}`));
+    const utterance = queue.enqueue('audio/x-mulaw', 8000, audio(), { id: 'hello', text: 'hello there' });
+
+    // All 200 ms fit in the player's lead, so both checkpoints go out at once
+    expect(checkpoints()).toEqual(['hello:start', 'hello:end']);
+    await ack('hello:start');
+    expect(queue.current).toBe(utterance);
+    await ack('hello:end');
+
+    expect(await utterance.done).toBe(utterance);
+    expect(states).toEqual(['hello:queued', 'hello:playing', 'hello:played']);
+    expect(utterance.playedMs).toBe(200);
+    expect(utterance.heardText).toBe('hello there');
+    expect(queue.pending).toEqual([]);
+  });
+
+  test('holds later utterances behind an open one until it ends', async () => {
+    const { queue, checkpoints } = queueSession();
+    const open = queue.enqueue('audio/x-mulaw', 8000, undefined, { id: 'open' });
+    queue.enqueue('audio/x-mulaw', 8000, audio(), { id: 'next' });
+    open.write(audio());
+
+    expect(checkpoints()).toEqual(['open:start']);
+    open.end();
+    await new Promise((resolve) => setTimeout(resolve, 250));
+
+    expect(checkpoints()).toEqual(['open:start', 'open:end', 'next:start', 'next:end']);
+    expect(() => open.write(audio())).toThrow('Utterance open has already ended');
+  });
+
+  test('marks the playing utterance interrupted when playback is cleared elsewhere', async () => {
+    const { queue, ack, cleared } = queueSession();
+    const playing = queue.enqueue('audio/x-mulaw', 8000, audio(), { id: 'a' });
+    const waiting = queue.enqueue('audio/x-mulaw', 8000, audio(), { id: 'b' });
+    await ack('a:start');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    await cleared();
+
+    expect(playing.state).toBe('interrupted');
+    expect(playing.playedMs).toBeGreaterThan(0);
+    expect(playing.playedMs).toBeLessThan(200);
+    expect(waiting.state).toBe('cancelled');
+    expect(waiting.playedMs).toBe(0);
+  });
+
+  test('cancels an unsent utterance without clearing playback', async () => {
+    const { socket, queue } = queueSession(false);
+    const first = queue.enqueue('audio/x-mulaw', 8000, audio());
+    const second = queue.enqueue('audio/x-mulaw', 8000, audio());
+    await second.cancel();
+
+    expect(second.state).toBe('cancelled');
+    expect(queue.pending).toEqual([first]);
+    expect(socket.sent).toEqual([]);
+  });
+
+  test('estimates the heard text from the played share, back to a word boundary', () => {
+    const { queue } = queueSession(false);
+    const heard = (playedMs: number) => {
+      const utterance: Utterance = queue.enqueue('audio/x-mulaw', 8000, audio(), { text: 'alpha beta gamma delta' });
+      utterance.finish('interrupted', playedMs);
+      return [utterance.textOffset, utterance.heardText];
+    };
+
+    expect(heard(0)).toEqual([0, '']);
+    expect(heard(100)).toEqual([10, 'alpha beta']);
+    expect(heard(30)).toEqual([0, '']);
+    expect(heard(500)).toEqual([22, 'alpha beta gamma delta']);
+  });
+});
@@ -0,0 +1,192 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { createWriteStream } from 'fs';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PassThrough } from 'stream';
+import { PlivoWebSocketServer, parseWav, type PlivoStreamSession, type RecorderOptions } from '../src/index.js';
+import { closeServer, connect, listening, mediaMessage, startMessage } from './helpers.js';
+
+const servers: PlivoWebSocketServer[] = [];
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map(closeServer));
+});
+
+/**
+ * Run a call with `frames` inbound frames through a server recording with `record`,
+ * resolving with the session and its errors once it has closed
+ */
+async function recordCall(record: RecorderOptions, frames: number, onFrame?: () => void) {
+  const server = new PlivoWebSocketServer({ port: 0, record });
+  servers.push(server);
+  const errors: Error[] = [];
+  const closed = new Promise<{ session: PlivoStreamSession; errors: Error[] }>((resolve) => {
+    server
+      .onConnection((ws, request, session) => {
+        session.on('error', (error) => errors.push(error));
+      })
+      .onMedia(() => onFrame?.())
+      .onClose((ws, session) => resolve({ session, errors }))
+      .start();
+  });
+  const ws = await connect(await listening(server));
+  ws.send(startMessage());
+  for (let chunk = 0; chunk < frames; chunk++) ws.send(mediaMessage(chunk));
+  ws.close();
+  return closed;
+}
+
+describe('CallRecorder', () => {
+  test('writes the caller to a finalised mono WAV file at the stream rate', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'plivo-recorder-'));
+    try {
+      const path = join(dir, 'call.wav');
+      const { session } = await recordCall({ destination: () => path, channels: 'inbound' }, 4);
+      const summary = await session.recorder!.done;
+
+      expect(summary).toEqual({ path, channels: 'inbound', sampleRate: 8000, durationMs: 80, dataBytes: 4 * 160 * 2 });
+      const wav = parseWav(await readFile(path));
+      expect(wav).toMatchObject({ format: 1, channels: 1, sampleRate: 8000, bitsPerSample: 16 });
+      // mu-law 0xff is digital silence
+      expect(wav.data.equals(Buffer.alloc(summary.dataBytes))).toBe(true);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('puts the caller on the left and played audio on the right in stereo', async () => {
+    const destination = new PassThrough();
+    const chunks: Buffer[] = [];
+    destination.on('data', (chunk: Buffer) => chunks.push(chunk));
+    const server = new PlivoWebSocketServer({ port: 0, record: { destination } });
+    servers.push(server);
+    const closed = new Promise<PlivoStreamSession>((resolve) => {
+      server
+        // 100 ms of full-scale positive samples
+        .onStart((event, ws, session) => session.playAudio('audio/x-mulaw', 8000, Buffer.alloc(800, 0x80)))
+        .onClose((ws, session) => resolve(session))
+        .start();
+    });
+    const ws = await connect(await listening(server));
+    ws.send(startMessage());
+    for (let chunk = 0; chunk < 5; chunk++) ws.send(mediaMessage(chunk, Buffer.alloc(160, 0x80)));
+    // Let the played audio finish, so none of it is cut off as unplayed
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    ws.close();
+    const summary = await (await closed).recorder!.done;
+
+    const wav = parseWav(Buffer.concat(chunks));
+    expect(wav.channels).toBe(2);
+    expect(summary.channels).toBe('stereo');
+    const left: number[] = [];
+    const right: number[] = [];
+    for (let i = 0; i < wav.data.length; i += 4) {
+      left.push(wav.data.readInt16LE(i));
+      right.push(wav.data.readInt16LE(i + 2));
+    }
+    expect(left.slice(0, 800).every((sample) => sample > 30000)).toBe(true);
+    expect(left.slice(800).every((sample) => sample === 0)).toBe(true);
+    expect(right.filter((sample) => sample > 30000)).toHaveLength(800);
+  });
+
+  test('reports destination failures to the server onError', async () => {
+    const server = new PlivoWebSocketServer({ port: 0, record: { destination: '/nonexistent/dir/x.wav' } });
+    servers.push(server);
+    const errors: Error[] = [];
+    server.onError((error) => errors.push(error)).start();
+    const ws = await connect(await listening(server));
+    ws.send(startMessage());
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    ws.close();
+
+    expect(errors.map((error) => (error as NodeJS.ErrnoException).code)).toEqual(['ENOENT']);
+  });
+
+  test('reports a destination that cannot be opened instead of leaving an unhandled rejection', async () => {
+    const unhandled: unknown[] = [];
+    const onUnhandled = (reason: unknown) => unhandled.push(reason);
+    process.on('unhandledRejection', onUnhandled);
+    try {
+      const errors: Error[] = [];
+      const server = new PlivoWebSocketServer({ port: 0 });
+      servers.push(server);
+      const recorded = new Promise<PlivoStreamSession>((resolve) => {
+        server
+          .onStart((event, ws, session) => {
+            session.on('error', (error) => errors.push(error));
+            session.record({ destination: '/nonexistent/dir/x.wav', channels: 'inbound' });
+            resolve(session);
+          })
+          .start();
+      });
+      const ws = await connect(await listening(server));
+      ws.send(startMessage());
+      const session = await recorded;
+
+      const error = await session.recorder!.done.catch((error) => error);
+      expect((error as NodeJS.ErrnoException).code).toBe('ENOENT');
+      expect(errors).toEqual([error]);
+
+      // Later frames and the close are ignored rather than failing again
+      ws.send(mediaMessage(0));
+      ws.close();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(errors).toHaveLength(1);
+      expect(unhandled).toEqual([]);
+    } finally {
+      process.off('unhandledRejection', onUnhandled);
+    }
+  });
+
+  test('reports a failing destination stream on the session and rejects done', async () => {
+    const destination = new PassThrough();
+    let failed = false;
+    const { session, errors } = await recordCall({ destination, channels: 'inbound' }, 3, () => {
+      if (failed) return;
+      failed = true;
+      destination.destroy(new Error('disk full'));
+    });
+
+    await expect(session.recorder!.done).rejects.toThrow('disk full');
+    expect(errors.map((error) => error.message)).toEqual(['disk full']);
+  });
+
+  test('streams to a Writable while the call is in progress', async () => {
+    const destination = new PassThrough();
+    const chunks: Buffer[] = [];
+    destination.on('data', (chunk: Buffer) => chunks.push(chunk));
+    let bytesDuringCall = 0;
+    const { session } = await recordCall({ destination, channels: 'inbound' }, 10, () => {
+      bytesDuringCall = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    });
+
+    const summary = await session.recorder!.done;
+    // Header plus the frames committed before the last one arrived
+    expect(bytesDuringCall).toBeGreaterThan(44);
+
+    const wav = Buffer.concat(chunks);
+    expect(wav.readUInt32LE(40)).toBe(0xffffffff);
+    const info = parseWav(wav);
+    expect(info.sampleRate).toBe(8000);
+    expect(info.channels).toBe(1);
+    expect(info.data.length).toBe(summary.dataBytes);
+    expect(summary.dataBytes).toBe(10 * 160 * 2);
+  });
+
+  test('patches the header sizes when the Writable is a file stream', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'plivo-recorder-'));
+    try {
+      const path = join(dir, 'call.wav');
+      const { session } = await recordCall({ destination: createWriteStream(path), channels: 'inbound' }, 5);
+      const summary = await session.recorder!.done;
+
+      const wav = await readFile(path);
+      expect(wav.readUInt32LE(4)).toBe(36 + summary.dataBytes);
+      expect(wav.readUInt32LE(40)).toBe(summary.dataBytes);
+      expect(parseWav(wav).data.length).toBe(5 * 160 * 2);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,103 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import type { IncomingMessage } from 'http';
+import type { WebSocket } from 'ws';
+import {
+  PlivoStreamSession,
+  PlivoWebSocketServer,
+  SessionRegistry,
+  parseInboundEvent,
+  type StartEvent,
+} from '../src/index.js';
+import { CALL_ID, FakeSocket, STREAM_ID, closeServer, connect, listening, startMessage } from './helpers.js';
+
+const servers: PlivoWebSocketServer[] = [];
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map(closeServer));
+});
+
+const closeInfo = { reason: 'remote' as const, code: 1000, message: '' };
+
+/** A session on a fake socket; all started ones share the helpers' callId and streamId */
+function session(started = true) {
+  const created = new PlivoStreamSession(new FakeSocket() as unknown as WebSocket, {} as IncomingMessage);
+  if (started) created.handleStart(parseInboundEvent(JSON.parse(startMessage())) as StartEvent);
+  return created;
+}
+
+describe('SessionRegistry', () => {
+  test('indexes started sessions by callId and streamId and counts the unstarted ones too', () => {
+    const registry = new SessionRegistry();
+    const events: string[] = [];
+    registry.on('added', () => events.push('added'));
+    registry.on('started', (started) => events.push(`started ${started.callId}`));
+    const waiting = session(false);
+    const started = session();
+
+    registry.add(waiting);
+    registry.add(started);
+    registry.add(started);
+    registry.index(started);
+    registry.index(waiting);
+
+    expect(events).toEqual(['added', 'added', `started ${CALL_ID}`]);
+    expect(registry.size).toBe(2);
+    expect(registry.startedCount).toBe(1);
+    expect(registry.getByCallId(CALL_ID)).toBe(started);
+    expect(registry.getByStreamId(STREAM_ID)).toBe(started);
+    expect(registry.getByCallId('33333333-3333-4333-8333-333333333333')).toBeUndefined();
+    expect([...registry]).toEqual([waiting, started]);
+  });
+
+  test('does not index a session it never added', () => {
+    const registry = new SessionRegistry();
+    registry.index(session());
+
+    expect(registry.getByCallId(CALL_ID)).toBeUndefined();
+  });
+
+  test('keeps a reconnected stream indexed when the connection it replaced closes', () => {
+    const registry = new SessionRegistry();
+    const removed: unknown[] = [];
+    registry.on('removed', (closed, info) => removed.push([closed, info.reason]));
+    const first = session();
+    const second = session();
+    for (const each of [first, second]) {
+      registry.add(each);
+      registry.index(each);
+    }
+
+    registry.remove(first, closeInfo);
+    registry.remove(first, closeInfo);
+    expect(registry.getByCallId(CALL_ID)).toBe(second);
+    expect(registry.has(first)).toBe(false);
+
+    registry.remove(second, closeInfo);
+    expect(registry.getByStreamId(STREAM_ID)).toBeUndefined();
+    expect(removed).toEqual([
+      [first, 'remote'],
+      [second, 'remote'],
+    ]);
+  });
+});
+
+describe('PlivoWebSocketServer.sessions', () => {
+  test('finds a live call by its ids from outside the handlers, until it hangs up', async () => {
+    const server = new PlivoWebSocketServer({ port: 0 });
+    servers.push(server);
+    server.start();
+    const started = new Promise<PlivoStreamSession>((resolve) => server.sessions.once('started', resolve));
+    const removed = new Promise<PlivoStreamSession>((resolve) => server.sessions.once('removed', resolve));
+    const ws = await connect(await listening(server));
+    ws.send(startMessage());
+
+    const session = await started;
+    expect(server.sessions.getByCallId(CALL_ID)).toBe(session);
+    expect(server.sessions.getByStreamId(STREAM_ID)?.callId).toBe(CALL_ID);
+
+    ws.close();
+    expect(await removed).toBe(session);
+    expect(server.sessions.getByCallId(CALL_ID)).toBeUndefined();
+    expect(server.sessions.size).toBe(0);
+  });
+});
@@ -0,0 +1,176 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import type { Cluster } from 'cluster';
+import { EventEmitter } from 'events';
+import {
+  CommandRouter,
+  InMemoryTransport,
+  PlivoWebSocketServer,
+  RoutingError,
+  SessionRegistry,
+  relayIpcRouting,
+  type RoutingMessage,
+} from '../src/index.js';
+import { CALL_ID, STREAM_ID, closeServer, connect, listening, startMessage } from './helpers.js';
+
+const servers: PlivoWebSocketServer[] = [];
+const routers: CommandRouter[] = [];
+
+afterEach(async () => {
+  routers.splice(0).forEach((router) => router.close());
+  await Promise.all(servers.splice(0).map(closeServer));
+});
+
+async function until(condition: () => boolean, timeoutMs = 2000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+async function rejection(promise: Promise<unknown>): Promise<RoutingError> {
+  const error = await promise.then(
+    () => undefined,
+    (error) => error,
+  );
+  expect(error).toBeInstanceOf(RoutingError);
+  return error;
+}
+
+describe('CommandRouter between servers', () => {
+  test('carries commands to the instance holding the call and settles with its result', async () => {
+    const transport = new InMemoryTransport();
+    const owner = new PlivoWebSocketServer({
+      port: 0,
+      routing: { transport, nodeId: 'owner' },
+      ackTimeouts: { clearAudioMs: 30 },
+    });
+    const other = new PlivoWebSocketServer({ noServer: true, routing: { transport, nodeId: 'other' } });
+    servers.push(owner, other);
+    owner.start();
+    const ws = await connect(await listening(owner));
+    const received: any[] = [];
+    ws.on('message', (data) => {
+      const event = JSON.parse(data.toString());
+      received.push(event);
+      if (event.event === 'checkpoint') {
+        ws.send(JSON.stringify({ event: 'playedStream', sequenceNumber: 2, streamId: STREAM_ID, name: event.name }));
+      }
+    });
+    ws.send(startMessage());
+    await until(() => other.router!.ownerOf(STREAM_ID) === 'owner');
+
+    const call = other.router!.call(CALL_ID);
+    expect(call.streamId).toBe(STREAM_ID);
+    await call.playAudio('audio/x-mulaw', 8000, Buffer.alloc(160, 0xff));
+    expect(await call.checkpoint('greeting')).toMatchObject({ event: 'playedStream', name: 'greeting' });
+    expect(received.map((event) => event.event)).toEqual(['playAudio', 'checkpoint']);
+
+    // Nothing answers clearAudio: the owner gives up after its own 30 ms and says why
+    const error = await rejection(call.clearAudio());
+    expect(error.reason).toBe('remote');
+    expect(error.remoteName).toBe('AckTimeoutError');
+
+    const closed = new Promise((resolve) => ws.once('close', resolve));
+    await call.close(1000, 'done');
+    await closed;
+    await until(() => other.router!.ownerOf(STREAM_ID) === undefined);
+    expect((await rejection(call.playAudio('audio/x-mulaw', 8000, Buffer.alloc(160)))).reason).toBe('notFound');
+  });
+
+  test('runs commands for its own calls locally', async () => {
+    const server = new PlivoWebSocketServer({ port: 0, routing: { transport: new InMemoryTransport() } });
+    servers.push(server);
+    server.start();
+    const ws = await connect(await listening(server));
+    const received = new Promise<any>((resolve) => ws.once('message', (data) => resolve(JSON.parse(data.toString()))));
+    ws.send(startMessage());
+    await until(() => server.router!.ownerOf(STREAM_ID) === server.router!.nodeId);
+
+    await server.router!.stream(STREAM_ID).playAudio('audio/x-mulaw', 8000, new Uint8Array(160).buffer);
+    expect(await received).toMatchObject({ event: 'playAudio', media: { sampleRate: 8000 } });
+    ws.close();
+  });
+});
+
+describe('CommandRouter with an unresponsive owner', () => {
+  /** A router with no sessions of its own, and a peer that claims the stream but never replies */
+  async function withSilentOwner(claim: Partial<Extract<RoutingMessage, { type: 'claim' }>> = {}) {
+    const transport = new InMemoryTransport();
+    const commands: RoutingMessage[] = [];
+    transport.subscribe((message) => {
+      if (message.type === 'command') commands.push(message);
+    });
+    const router = new CommandRouter(new SessionRegistry(), { transport, nodeId: 'caller', timeoutMs: 20 });
+    routers.push(router);
+    transport.publish({ type: 'claim', from: 'silent', callId: CALL_ID, streamId: STREAM_ID, ...claim });
+    await until(() => router.ownerOf(STREAM_ID) === 'silent');
+    return { transport, router, commands };
+  }
+
+  test("waits for the owner's own acknowledgement timeout, not a fixed minute", async () => {
+    const { router } = await withSilentOwner({ ackTimeouts: { checkpointMs: 60000, clearAudioMs: 30 } });
+
+    const started = Date.now();
+    const error = await rejection(router.call(CALL_ID).clearAudio());
+    expect(error.reason).toBe('timeout');
+    expect(error.message).toBe(`silent did not answer clearAudio for Call ${CALL_ID} within 50ms`);
+    expect(Date.now() - started).toBeLessThan(1000);
+
+    const explicit = await rejection(router.stream(STREAM_ID).checkpoint('end', { timeoutMs: 10 }));
+    expect(explicit.message).toContain('within 30ms');
+  });
+
+  test('rejects commands to an owner that leaves, and forgets its streams', async () => {
+    const { transport, router, commands } = await withSilentOwner();
+
+    // With the acknowledgement timeout disabled only the owner leaving can settle this
+    const pending = rejection(router.call(CALL_ID).checkpoint('never', { timeoutMs: 0 }));
+    await until(() => commands.length === 1);
+    transport.publish({ type: 'leave', from: 'silent' });
+
+    const error = await pending;
+    expect(error.reason).toBe('closed');
+    expect(error.message).toBe('silent left before replying');
+    expect(router.ownerOf(STREAM_ID)).toBeUndefined();
+    expect(router.call(CALL_ID).streamId).toBeUndefined();
+  });
+
+  test('rejects what is still pending when it closes, and everything after', async () => {
+    const { router } = await withSilentOwner();
+    const pending = rejection(router.call(CALL_ID).checkpoint('never', { timeoutMs: 0 }));
+    router.close();
+
+    expect((await pending).reason).toBe('closed');
+    expect((await rejection(router.call(CALL_ID).close())).message).toBe('Router is closed');
+  });
+});
+
+describe('relayIpcRouting', () => {
+  test('forwards between workers and announces a worker that exits as having left', () => {
+    const cluster = new EventEmitter();
+    const inboxes = new Map<number, unknown[]>();
+    const workers = Object.fromEntries(
+      [1, 2, 3].map((id) => {
+        inboxes.set(id, []);
+        return [id, { id, isConnected: () => true, send: (value: unknown) => inboxes.get(id)!.push(value) }];
+      }),
+    );
+    Object.assign(cluster, { workers });
+    const stop = relayIpcRouting(cluster as unknown as Cluster);
+
+    const claim = { __plivoStreamRouting: { type: 'claim', from: 'node-1', callId: CALL_ID, streamId: STREAM_ID } };
+    cluster.emit('message', workers[1], claim);
+    cluster.emit('message', workers[1], { unrelated: true });
+    expect(inboxes.get(1)).toEqual([]);
+    expect(inboxes.get(2)).toEqual([claim]);
+
+    delete workers[1];
+    cluster.emit('exit', { id: 1 });
+    expect(inboxes.get(3)).toEqual([claim, { __plivoStreamRouting: { type: 'leave', from: 'node-1' } }]);
+
+    stop();
+    cluster.emit('message', workers[2], claim);
+    expect(inboxes.get(3)).toHaveLength(2);
+  });
+});
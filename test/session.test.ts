@@ -0,0 +1,137 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import type { IncomingMessage } from 'http';
+import type { WebSocket } from 'ws';
+import {
+  PlivoStreamSession,
+  PlivoWebSocketServer,
+  parseInboundEvent,
+  type PlivoStreamSessionOptions,
+  type StartEvent,
+} from '../src/index.js';
+import {
+  CALL_ID,
+  FakeSocket,
+  STREAM_ID,
+  closeServer,
+  connect,
+  dtmfMessage,
+  listening,
+  startMessage,
+} from './helpers.js';
+
+const servers: PlivoWebSocketServer<any>[] = [];
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map(closeServer));
+});
+
+function session(options: PlivoStreamSessionOptions = {}) {
+  const socket = new FakeSocket();
+  const request = { url: '/stream', headers: {} } as IncomingMessage;
+  return { socket, session: new PlivoStreamSession(socket as unknown as WebSocket, request, options) };
+}
+
+const start = parseInboundEvent(JSON.parse(startMessage())) as StartEvent;
+
+describe('PlivoStreamSession', () => {
+  test('exposes the stream metadata once the start event arrives', () => {
+    const { session: s } = session();
+    expect(s.isStarted).toBe(false);
+    expect(s.callId).toBeUndefined();
+
+    s.handleStart(start);
+
+    expect(s.isStarted).toBe(true);
+    expect(s.isActive).toBe(true);
+    expect({ callId: s.callId, streamId: s.streamId, accountId: s.accountId, tracks: s.tracks }).toEqual({
+      callId: CALL_ID,
+      streamId: STREAM_ID,
+      accountId: 'MA000000',
+      tracks: ['inbound'],
+    });
+    expect(s.mediaFormat).toEqual({ encoding: 'audio/x-mulaw', sampleRate: 8000 });
+    expect(s.extraHeaders).toBe('');
+  });
+
+  test('refuses checkpoint and clearAudio before start and after the socket closes', () => {
+    const { socket, session: s } = session();
+    expect(() => s.clearAudio()).toThrow('Stream ID not available. Wait for the start event.');
+
+    s.handleStart(start);
+    s.close(4000, 'done');
+
+    expect(socket.closed).toEqual({ code: 4000, reason: 'done' });
+    expect(s.closeReason).toBe('local');
+    expect(() => s.checkpoint('late')).toThrow('WebSocket is not connected');
+    s.playAudio('audio/x-mulaw', 8000, Buffer.alloc(160));
+    expect(socket.sent).toEqual([]);
+  });
+
+  test('sends playAudio for every kind of payload, encoding only the viewed bytes', () => {
+    const { socket, session: s } = session();
+    s.handleStart(start);
+    const bytes = new Uint8Array([0, 1, 2, 3, 4, 5]);
+
+    s.playAudio('audio/x-l16', 16000, Buffer.from([1, 2]));
+    s.playAudio('audio/x-l16', 16000, bytes.subarray(2, 4));
+    s.playAudio('audio/x-l16', 16000, bytes.buffer.slice(4));
+
+    expect(socket.sent.map((event) => Buffer.from(event.media.payload, 'base64'))).toEqual([
+      Buffer.from([1, 2]),
+      Buffer.from([2, 3]),
+      Buffer.from([4, 5]),
+    ]);
+    expect(socket.sent[0]).toEqual({
+      event: 'playAudio',
+      media: { contentType: 'audio/x-l16', sampleRate: 16000, payload: 'AQI=' },
+    });
+  });
+
+  test('delivers events to on and once listeners until they are removed', () => {
+    const { session: s } = session();
+    const seen: string[] = [];
+    const listener = (at: number) => seen.push(`on ${at}`);
+    s.on('outboundCleared', listener);
+    s.once('outboundCleared', (at) => seen.push(`once ${at}`));
+
+    s.emit('outboundCleared', 1);
+    s.off('outboundCleared', listener);
+    s.emit('outboundCleared', 2);
+
+    expect(seen).toEqual(['on 1', 'once 1']);
+  });
+});
+
+describe('PlivoWebSocketServer sessions', () => {
+  test('passes the same session, with its data, to every callback of a connection', async () => {
+    const server = new PlivoWebSocketServer<{ digits: string[] }>({ port: 0 });
+    servers.push(server);
+    const sessions = new Set<PlivoStreamSession<{ digits: string[] }>>();
+    const closed = new Promise<string[]>((resolve) => {
+      server
+        .onConnection((ws, request, session) => {
+          sessions.add(session);
+          session.data.digits = [];
+        })
+        .onStart((event, ws, session) => sessions.add(session))
+        .onDtmf((event, ws, session) => {
+          sessions.add(session);
+          session.data.digits.push(event.dtmf.digit);
+        })
+        .onClose((ws, session) => {
+          sessions.add(session);
+          resolve(session.data.digits);
+        })
+        .start();
+    });
+    const ws = await connect(await listening(server));
+    ws.send(startMessage());
+    ws.send(dtmfMessage('4', 1));
+    ws.send(dtmfMessage('2', 2));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    ws.close();
+
+    expect(await closed).toEqual(['4', '2']);
+    expect(sessions.size).toBe(1);
+  });
+});
@@ -0,0 +1,153 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import type { IncomingMessage } from 'http';
+import { WebSocket } from 'ws';
+import { NonceCache, PlivoWebSocketServer, SignatureVerifier, signV3 } from '../src/index.js';
+import { closeServer, listening } from './helpers.js';
+
+const AUTH_TOKEN = 'test-auth-token';
+const NONCE = '12345678901234567890';
+
+const servers: PlivoWebSocketServer[] = [];
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map(closeServer));
+});
+
+function upgradeRequest(headers: Record<string, string>): IncomingMessage {
+  return { method: 'GET', url: '/stream', headers: { host: 'example.com', ...headers }, socket: {} } as IncomingMessage;
+}
+
+function signedHeaders(nonce: string, authToken = AUTH_TOKEN): Record<string, string> {
+  return {
+    'x-plivo-signature-v3': signV3('http://example.com/stream', nonce, authToken),
+    'x-plivo-signature-v3-nonce': nonce,
+  };
+}
+
+/**
+ * Open a connection with the given headers, resolving with the HTTP status of a rejected upgrade or 101
+ */
+function upgradeStatus(port: number, headers: Record<string, string>): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const ws = new WebSocket(`ws://localhost:${port}/`, { headers });
+    ws.once('open', () => {
+      ws.close();
+      resolve(101);
+    });
+    ws.once('unexpected-response', (request, response) => resolve(response.statusCode ?? 0));
+    ws.once('error', reject);
+  });
+}
+
+describe('SignatureVerifier', () => {
+  test('accepts a valid signature and rejects the same nonce replayed', () => {
+    const verifier = new SignatureVerifier({ authTokens: [AUTH_TOKEN] });
+
+    expect(verifier.verify(upgradeRequest(signedHeaders(NONCE)))).toEqual({ valid: true });
+    expect(verifier.verify(upgradeRequest(signedHeaders(NONCE)))).toEqual({ valid: false, reason: 'replayed' });
+  });
+
+  test('rejects missing headers and signatures made with another token', () => {
+    const verifier = new SignatureVerifier({ authTokens: [AUTH_TOKEN] });
+
+    expect(verifier.verify(upgradeRequest({}))).toEqual({ valid: false, reason: 'missing' });
+    expect(verifier.verify(upgradeRequest(signedHeaders(NONCE, 'other-token')))).toEqual({
+      valid: false,
+      reason: 'invalid',
+    });
+    // A rejected signature does not use up its nonce
+    expect(verifier.verify(upgradeRequest(signedHeaders(NONCE)))).toEqual({ valid: true });
+  });
+
+  test('accepts any of several tokens while rotating', () => {
+    const verifier = new SignatureVerifier({ authTokens: ['old-token', AUTH_TOKEN] });
+
+    expect(verifier.verify(upgradeRequest(signedHeaders(NONCE)))).toEqual({ valid: true });
+  });
+});
+
+describe('SignatureVerifier.signedUri', () => {
+  test('uses the Host header and the socket, ignoring forwarded headers unless the proxy is trusted', () => {
+    const forwarded = { 'x-forwarded-proto': 'wss', 'x-forwarded-host': 'public.example.com' };
+    const plain = new SignatureVerifier({ authTokens: [AUTH_TOKEN] });
+
+    expect(plain.signedUri(upgradeRequest(forwarded))).toBe('http://example.com/stream');
+    const tls = { ...upgradeRequest({}), socket: { encrypted: true } } as unknown as IncomingMessage;
+    expect(plain.signedUri(tls)).toBe('https://example.com/stream');
+  });
+
+  test('takes the first forwarded value from a proxy chain, mapping ws schemes to http', () => {
+    const verifier = new SignatureVerifier({ authTokens: [AUTH_TOKEN], trustProxy: true });
+    const request = upgradeRequest({
+      'x-forwarded-proto': 'WSS, http',
+      'x-forwarded-host': 'public.example.com, internal.lb',
+    });
+
+    expect(verifier.signedUri(request)).toBe('https://public.example.com/stream');
+    expect(verifier.signedUri(upgradeRequest({ 'x-forwarded-proto': 'ws' }))).toBe('http://example.com/stream');
+  });
+
+  test('verifies a signature made for the public URL behind a trusted proxy', () => {
+    const nonce = '98765432109876543210';
+    const headers = {
+      'x-forwarded-proto': 'https',
+      'x-forwarded-host': 'public.example.com',
+      'x-plivo-signature-v3': signV3('https://public.example.com/stream', nonce, AUTH_TOKEN),
+      'x-plivo-signature-v3-nonce': nonce,
+    };
+
+    const direct = new SignatureVerifier({ authTokens: [AUTH_TOKEN] });
+    const proxied = new SignatureVerifier({ authTokens: [AUTH_TOKEN], trustProxy: true });
+
+    expect(direct.verify(upgradeRequest(headers))).toEqual({ valid: false, reason: 'invalid' });
+    expect(proxied.verify(upgradeRequest(headers))).toEqual({ valid: true });
+  });
+});
+
+describe('NonceCache', () => {
+  test('forgets nonces after five minutes by default', () => {
+    const cache = new NonceCache();
+
+    expect(cache.add('a', 0)).toBe(true);
+    expect(cache.add('a', 299_999)).toBe(false);
+    expect(cache.add('a', 300_000)).toBe(true);
+  });
+
+  test('drops expired and then the oldest nonces to stay within its bounds', () => {
+    const cache = new NonceCache({ maxSize: 2, ttlMs: 100 });
+    cache.add('a', 0);
+    cache.add('b', 10);
+    cache.add('c', 20);
+
+    expect(cache.size).toBe(2);
+    expect(cache.add('a', 30)).toBe(true);
+    expect(cache.add('c', 40)).toBe(false);
+
+    cache.add('d', 200);
+    expect(cache.size).toBe(1);
+  });
+
+  test('keeps nonces until evicted when ttlMs is 0', () => {
+    const cache = new NonceCache({ ttlMs: 0 });
+    cache.add('a', 0);
+
+    expect(cache.add('a', Number.MAX_SAFE_INTEGER)).toBe(false);
+  });
+});
+
+describe('PlivoWebSocketServer signature validation', () => {
+  test('rejects unsigned and replayed upgrades with 403', async () => {
+    const server = new PlivoWebSocketServer({ port: 0, validateSignature: true, authToken: AUTH_TOKEN });
+    servers.push(server);
+    server.start();
+    const port = await listening(server);
+    const headers = {
+      'X-Plivo-Signature-V3': signV3(`http://localhost:${port}/`, NONCE, AUTH_TOKEN),
+      'X-Plivo-Signature-V3-Nonce': NONCE,
+    };
+
+    expect(await upgradeStatus(port, {})).toBe(403);
+    expect(await upgradeStatus(port, headers)).toBe(101);
+    expect(await upgradeStatus(port, headers)).toBe(403);
+  });
+});
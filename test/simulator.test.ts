@@ -0,0 +1,132 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { WebSocketServer } from 'ws';
+import type { AddressInfo } from 'net';
+import {
+  PlivoStreamSimulator,
+  PlivoWebSocketServer,
+  SimulatorTimeoutError,
+  signV3,
+  wavHeader,
+  type MediaEvent,
+} from '../src/index.js';
+import { closeServer, listening } from './helpers.js';
+
+const wss: WebSocketServer[] = [];
+const servers: PlivoWebSocketServer[] = [];
+const simulators: PlivoStreamSimulator[] = [];
+
+afterEach(async () => {
+  await Promise.all(simulators.splice(0).map((simulator) => simulator.close().catch(() => {})));
+  await Promise.all(wss.splice(0).map((server) => new Promise((resolve) => server.close(resolve))));
+  await Promise.all(servers.splice(0).map(closeServer));
+});
+
+describe('signV3', () => {
+  test('signs the URL with its query parameters sorted', () => {
+    const signature = signV3('http://example.com/stream?b=2&a=1', 'nonce', 'token');
+
+    expect(signature).toBe(signV3('http://example.com/stream?a=1&b=2', 'nonce', 'token'));
+    expect(signature).not.toBe(signV3('http://example.com/stream?a=1&b=2', 'nonce', 'other'));
+  });
+});
+
+describe('PlivoStreamSimulator against PlivoWebSocketServer', () => {
+  test('connects signed, streams WAV audio and DTMF, and plays back what the server sends', async () => {
+    const server = new PlivoWebSocketServer({ port: 0, validateSignature: true, authToken: 'token' });
+    servers.push(server);
+    const media: MediaEvent[] = [];
+    const digits: string[] = [];
+    server
+      .onStart((event, ws, session) => {
+        session.playAudio('audio/x-mulaw', 8000, Buffer.alloc(400, 0xff));
+        session.checkpoint('greeting').catch(() => {});
+      })
+      .onMedia((event) => media.push(event))
+      .onDtmf((event) => digits.push(event.dtmf.digit))
+      .start();
+    const port = await listening(server);
+    const simulator = new PlivoStreamSimulator(`ws://localhost:${port}/`, {
+      authToken: 'token',
+      extraHeaders: '{"lang":"en"}',
+    });
+    simulators.push(simulator);
+    const played = simulator.waitFor('playedStream');
+    await simulator.connect();
+
+    // 100 ms of stereo 16 kHz PCM16, mixed down and transcoded to 8 kHz mu-law in 20 ms frames
+    const pcm = Buffer.alloc(1600 * 2 * 2);
+    await simulator.sendAudio(Buffer.concat([wavHeader(pcm.length, 16000, 2), pcm]), { realtime: false });
+    simulator.sendDtmf('7');
+
+    expect(await played).toEqual(['greeting']);
+    const [audio] = simulator.receivedAudio;
+    expect(audio).toMatchObject({ contentType: 'audio/x-mulaw', sampleRate: 8000, durationMs: 50, cleared: false });
+    expect(audio!.playbackStartsAt).toBe(audio!.receivedAt);
+    expect(simulator.receivedPcm16(16000)).toHaveLength(1600);
+    expect(media.map((event) => [event.media.chunk, event.getRawMedia().length])).toEqual([
+      [1, 160],
+      [2, 160],
+      [3, 160],
+      [4, 160],
+      [5, 160],
+    ]);
+    expect(media[0]!.extra_headers).toBe('{"lang":"en"}');
+    expect(digits).toEqual(['7']);
+  });
+
+  test('paces audio in real time and times out waiting for events that never come', async () => {
+    const server = new PlivoWebSocketServer({ port: 0 });
+    servers.push(server);
+    server.start();
+    const simulator = new PlivoStreamSimulator(`ws://localhost:${await listening(server)}/`, { frameMs: 10 });
+    simulators.push(simulator);
+    await simulator.connect();
+
+    const started = Date.now();
+    await simulator.sendAudio(Buffer.alloc(8 * 60 * 2));
+    expect(Date.now() - started).toBeGreaterThanOrEqual(45);
+
+    await expect(simulator.waitFor('checkpoint', () => true, 20)).rejects.toBeInstanceOf(SimulatorTimeoutError);
+    await expect(simulator.connect()).rejects.toThrow('PlivoStreamSimulator is already connected');
+  });
+});
+
+describe('PlivoStreamSimulator', () => {
+  test('acknowledges each of two checkpoints sharing a name exactly once when audio is cleared', async () => {
+    const server = new WebSocketServer({ port: 0 });
+    wss.push(server);
+    await new Promise((resolve) => server.once('listening', resolve));
+    const played: string[] = [];
+    const cleared = new Promise<string[]>((resolve) => {
+      server.on('connection', (ws) => {
+        ws.on('message', (data) => {
+          const message = JSON.parse(data.toString());
+          if (message.event === 'start') {
+            // 200 ms of audio ahead of both checkpoints
+            const payload = Buffer.alloc(1600, 0xff).toString('base64');
+            const media = { contentType: 'audio/x-mulaw', sampleRate: 8000, payload };
+            ws.send(JSON.stringify({ event: 'playAudio', media }));
+            ws.send(JSON.stringify({ event: 'checkpoint', streamId: message.start.streamId, name: 'greeting' }));
+            ws.send(JSON.stringify({ event: 'checkpoint', streamId: message.start.streamId, name: 'greeting' }));
+            ws.send(JSON.stringify({ event: 'clearAudio', streamId: message.start.streamId }));
+          } else if (message.event === 'playedStream') {
+            played.push(message.name);
+          } else if (message.event === 'clearedAudio') {
+            resolve([...played]);
+          }
+        });
+      });
+    });
+
+    const simulator = new PlivoStreamSimulator(`ws://localhost:${(server.address() as AddressInfo).port}`);
+    simulators.push(simulator);
+    await simulator.connect();
+    // Both are acknowledged ahead of clearedAudio, not one of them later by a timer clearAudio missed
+    expect(await cleared).toEqual(['greeting', 'greeting']);
+    // Past the point a missed timer would have fired
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    expect(played).toEqual(['greeting', 'greeting']);
+    expect(simulator.playedCheckpoints).toEqual(['greeting', 'greeting']);
+  });
+});
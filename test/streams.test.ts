@@ -0,0 +1,156 @@
+import { describe, expect, test } from 'bun:test';
+import type { IncomingMessage } from 'http';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { WebSocket } from 'ws';
+import {
+  AudioFormatError,
+  MediaFrame,
+  PlivoStreamSession,
+  parseInboundEvent,
+  type StartEvent,
+} from '../src/index.js';
+import { FakeSocket, mediaMessage, startMessage } from './helpers.js';
+
+function streamSession(started = true) {
+  const socket = new FakeSocket();
+  const session = new PlivoStreamSession(socket as unknown as WebSocket, {} as IncomingMessage);
+  if (started) session.handleStart(parseInboundEvent(JSON.parse(startMessage())) as StartEvent);
+  let chunk = 0;
+  /** Deliver one frame the way the server does, with the stream's media format attached */
+  const media = (payload: Buffer, track = 'inbound') => {
+    const message = JSON.parse(mediaMessage(chunk++, payload));
+    const frame = new MediaFrame({ ...message, media: { ...message.media, track } });
+    frame.mediaFormat = session.mediaFormat;
+    session.emit('media', frame);
+  };
+  const hangUp = () => session.handleClose({ reason: 'remote', code: 1000, message: '' });
+  const played = () => socket.sent.filter((event) => event.event === 'playAudio');
+  return { socket, session, media, hangUp, played };
+}
+
+async function collect(stream: AsyncIterable<Buffer>): Promise<Buffer[]> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+}
+
+describe('InboundAudioStream', () => {
+  test('yields one chunk per frame of its track and ends when the call hangs up', async () => {
+    const { session, media, hangUp } = streamSession();
+    const reading = collect(session.inbound);
+    media(Buffer.alloc(160, 1));
+    media(Buffer.alloc(160, 2), 'outbound');
+    media(Buffer.alloc(80, 3));
+    hangUp();
+
+    expect(await reading).toEqual([Buffer.alloc(160, 1), Buffer.alloc(80, 3)]);
+    expect(session.listenerCount('media')).toBe(0);
+  });
+
+  test('ends at once when created for a call that has already closed', async () => {
+    const { session, hangUp } = streamSession();
+    hangUp();
+
+    expect(await collect(session.createInboundStream())).toEqual([]);
+  });
+
+  test('decodes to PCM16 at the requested rate, and fails the stream without a media format', async () => {
+    const { session, media, hangUp } = streamSession();
+    const reading = collect(session.createInboundStream({ format: 'pcm16', sampleRate: 16000 }));
+    media(Buffer.alloc(160, 0xff));
+    hangUp();
+    const [pcm] = await reading;
+    expect(pcm!.length).toBe(640);
+    expect(pcm!.every((byte) => byte === 0)).toBe(true);
+
+    const early = streamSession(false);
+    const failing = collect(early.session.createInboundStream({ format: 'pcm16' }));
+    early.media(Buffer.alloc(160));
+    await expect(failing).rejects.toBeInstanceOf(AudioFormatError);
+  });
+
+  test('drops frames while the reader is behind, and detaches once destroyed', () => {
+    const { session, media } = streamSession();
+    const inbound = session.createInboundStream({ maxBufferedFrames: 2 });
+    for (let i = 0; i < 5; i++) media(Buffer.alloc(160));
+
+    expect(inbound.readableLength).toBe(2);
+    expect(inbound.dropped).toBe(3);
+    inbound.destroy();
+    expect(session.listenerCount('media')).toBe(0);
+  });
+
+  test('is recreated on access after being destroyed', () => {
+    const { session } = streamSession();
+    const first = session.inbound;
+    expect(session.inbound).toBe(first);
+    first.destroy();
+
+    expect(session.inbound).not.toBe(first);
+  });
+});
+
+describe('OutboundAudioStream', () => {
+  test('sends each raw chunk as playAudio at once when unpaced', async () => {
+    const { session, played } = streamSession();
+    const outbound = session.createOutboundStream({ paced: false });
+    outbound.write(Buffer.alloc(160, 0xff));
+    outbound.write(Buffer.alloc(80, 0x7f));
+    await new Promise((resolve) => outbound.end(resolve));
+
+    expect(played().map((event) => event.media)).toEqual([
+      { contentType: 'audio/x-mulaw', sampleRate: 8000, payload: Buffer.alloc(160, 0xff).toString('base64') },
+      { contentType: 'audio/x-mulaw', sampleRate: 8000, payload: Buffer.alloc(80, 0x7f).toString('base64') },
+    ]);
+  });
+
+  test('transcodes PCM16, carrying an odd trailing byte into the next chunk', async () => {
+    const { session, played } = streamSession();
+    const outbound = session.createOutboundStream({ format: 'pcm16', paced: false });
+    const pcm = Buffer.alloc(8);
+    outbound.write(pcm.subarray(0, 3));
+    outbound.write(pcm.subarray(3, 4));
+    outbound.write(pcm.subarray(4));
+    await new Promise((resolve) => outbound.end(resolve));
+
+    // Silence in mu-law, one byte per sample
+    expect(played().map((event) => Buffer.from(event.media.payload, 'base64'))).toEqual([
+      Buffer.from([0xff]),
+      Buffer.from([0xff]),
+      Buffer.from([0xff, 0xff]),
+    ]);
+  });
+
+  test('completes a paced pipeline once its audio has been sent, then gives a fresh stream', async () => {
+    const { session, played } = streamSession();
+    const outbound = session.outbound;
+    await pipeline(Readable.from([Buffer.alloc(1600, 0xff), Buffer.alloc(800, 0xff)]), outbound);
+
+    const sent = played().reduce((bytes, event) => bytes + Buffer.from(event.media.payload, 'base64').length, 0);
+    expect(sent).toBe(2400);
+    expect(outbound.writableFinished).toBe(true);
+    expect(session.outbound).not.toBe(outbound);
+  });
+
+  test('is destroyed when the call hangs up, failing a pipeline still writing to it', async () => {
+    const { session, hangUp } = streamSession();
+    const source = new Readable({ read() {} });
+    source.push(Buffer.alloc(160, 0xff));
+    const piping = pipeline(source, session.outbound);
+    setTimeout(hangUp, 10);
+
+    await expect(piping).rejects.toThrow();
+    expect(source.destroyed).toBe(true);
+    expect(session.listenerCount('close')).toBe(0);
+  });
+
+  test('rejects raw writes before the stream has a media format', async () => {
+    const { session } = streamSession(false);
+    const outbound = session.createOutboundStream();
+    const failed = new Promise<Error>((resolve) => outbound.once('error', resolve));
+    outbound.write(Buffer.alloc(160));
+
+    expect(await failed).toBeInstanceOf(AudioFormatError);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, expect, test } from 'bun:test';
+import type { IncomingMessage } from 'http';
+import type { WebSocket } from 'ws';
+import {
+  MediaFrame,
+  PlivoStreamSession,
+  VoiceActivityDetector,
+  frameLevel,
+  parseInboundEvent,
+  type SpeechEvent,
+  type StartEvent,
+} from '../src/index.js';
+import { FakeSocket, mediaMessage, startMessage } from './helpers.js';
+
+const RATE = 8000;
+
+/** `ms` of PCM16 at RATE: a square wave of the given amplitude, or silence */
+function audio(ms: number, amplitude = 0): Buffer {
+  const out = Buffer.alloc(((RATE * ms) / 1000) * 2);
+  for (let i = 0; i < out.length / 2; i++) out.writeInt16LE(i % 2 === 0 ? amplitude : -amplitude, i * 2);
+  return out;
+}
+
+const speech = (ms: number) => audio(ms, 3000);
+
+function detector(options = {}) {
+  const vad = new VoiceActivityDetector(options);
+  const events: (SpeechEvent & { type: string })[] = [];
+  vad.on('speechStart', (event) => events.push({ type: 'start', ...event }));
+  vad.on('speechEnd', (event) => events.push({ type: 'end', ...event }));
+  return { vad, events };
+}
+
+describe('frameLevel', () => {
+  test('measures RMS in dBFS', () => {
+    expect(frameLevel(audio(20, 32767))).toBeCloseTo(0, 2);
+    expect(frameLevel(audio(20, 328))).toBeCloseTo(-40, 0);
+    expect(frameLevel(audio(20))).toBe(-Infinity);
+    expect(frameLevel(Buffer.alloc(0))).toBe(-Infinity);
+  });
+});
+
+describe('VoiceActivityDetector', () => {
+  test('starts after minSpeechMs of speech and ends after hangoverMs of silence', () => {
+    const { vad, events } = detector({ minSpeechMs: 60, hangoverMs: 100 });
+    vad.process(audio(40), RATE);
+    vad.process(speech(40), RATE);
+    expect(events).toEqual([]);
+
+    vad.process(speech(160), RATE);
+    expect(vad.isSpeaking).toBe(true);
+    vad.process(audio(80), RATE);
+    expect(events).toHaveLength(1);
+    vad.process(audio(20), RATE);
+
+    expect(events.map(({ level, ...event }) => event)).toEqual([
+      { type: 'start', startMs: 40 },
+      { type: 'end', startMs: 40, endMs: 240, durationMs: 200 },
+    ]);
+    expect(vad.isSpeaking).toBe(false);
+    expect(vad.processedMs).toBe(340);
+  });
+
+  test('ignores bursts shorter than minSpeechMs and pauses shorter than hangoverMs', () => {
+    const { vad, events } = detector({ minSpeechMs: 60, hangoverMs: 100 });
+    for (let i = 0; i < 5; i++) {
+      vad.process(speech(40), RATE);
+      vad.process(audio(20), RATE);
+    }
+    expect(events).toEqual([]);
+
+    vad.process(speech(60), RATE);
+    vad.process(audio(80), RATE);
+    vad.process(speech(20), RATE);
+    vad.process(audio(80), RATE);
+
+    expect(events.map(({ type }) => type)).toEqual(['start']);
+  });
+
+  test('frames audio across calls of any size, and starts over on a new sample rate', () => {
+    const whole = detector({ minSpeechMs: 40, hangoverMs: 40 });
+    const pieces = detector({ minSpeechMs: 40, hangoverMs: 40 });
+    const input = Buffer.concat([audio(30), speech(90), audio(70)]);
+    whole.vad.process(input, RATE);
+    for (let offset = 0; offset < input.length; offset += 74) {
+      pieces.vad.process(input.subarray(offset, offset + 74), RATE);
+    }
+    expect(pieces.events).toEqual(whole.events);
+    expect(whole.events.map(({ type }) => type)).toEqual(['start', 'end']);
+
+    // 10 ms left over at 8 kHz is dropped rather than mixed into 16 kHz audio
+    const { vad } = detector();
+    vad.process(audio(30), RATE);
+    vad.process(Buffer.alloc(640), 16000);
+    expect(vad.processedMs).toBe(40);
+  });
+
+  test('reset forgets speech in progress without emitting speechEnd', () => {
+    const { vad, events } = detector({ minSpeechMs: 20, hangoverMs: 20 });
+    vad.process(speech(40), RATE);
+    vad.reset();
+    vad.process(audio(100), RATE);
+
+    expect(events.map(({ type }) => type)).toEqual(['start']);
+    expect(vad.processedMs).toBe(100);
+  });
+
+  test('runs on the session track it was enabled for', () => {
+    const socket = new FakeSocket();
+    const session = new PlivoStreamSession(socket as unknown as WebSocket, {} as IncomingMessage, {
+      vad: { minSpeechMs: 40 },
+    });
+    session.handleStart(parseInboundEvent(JSON.parse(startMessage())) as StartEvent);
+    const starts: SpeechEvent[] = [];
+    session.on('speechStart', (event) => starts.push(event));
+
+    // Full-scale mu-law square wave
+    const loud = Buffer.from(Array.from({ length: 160 }, (_, i) => (i % 2 === 0 ? 0x00 : 0x80)));
+    const frame = (chunk: number, track: string) => {
+      const message = JSON.parse(mediaMessage(chunk, loud));
+      return new MediaFrame({ ...message, media: { ...message.media, track } });
+    };
+    for (let chunk = 0; chunk < 3; chunk++) {
+      session.handleMedia(frame(chunk, 'outbound'));
+      session.handleMedia(frame(chunk, 'inbound'));
+    }
+
+    expect(starts).toEqual([{ startMs: 0, level: expect.any(Number) }]);
+    expect(session.vad!.processedMs).toBe(60);
+  });
+});
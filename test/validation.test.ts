@@ -0,0 +1,105 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { EventValidationError, PlivoWebSocketServer, parseInboundEvent } from '../src/index.js';
+import { closeServer, connect, listening, startMessage } from './helpers.js';
+
+const servers: PlivoWebSocketServer[] = [];
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map(closeServer));
+});
+
+const start = {
+  event: 'start' as const,
+  sequenceNumber: 0,
+  start: {
+    callId: 'call-1',
+    streamId: 'stream-1',
+    accountId: 'MA000000',
+    tracks: ['inbound'],
+    mediaFormat: { encoding: 'audio/x-mulaw', sampleRate: 8000 },
+  },
+};
+
+describe('parseInboundEvent validation modes', () => {
+  test('strict requires UUID ids and extra_headers', () => {
+    expect(() => parseInboundEvent(start, 'strict')).toThrow();
+  });
+
+  test('lenient accepts any ids, a missing extra_headers, numeric strings and extra fields', () => {
+    const event = parseInboundEvent({ ...start, sequenceNumber: '3', region: 'eu' } as any, 'lenient');
+
+    expect(event).toMatchObject({ event: 'start', sequenceNumber: 3, extra_headers: '', headers: {}, region: 'eu' });
+  });
+
+  test('lenient still rejects events missing fields the SDK uses', () => {
+    expect(() => parseInboundEvent({ event: 'dtmf', sequenceNumber: 1 } as any, 'lenient')).toThrow();
+  });
+
+  test('off passes events on as received, parsing extra_headers on start', () => {
+    const event = parseInboundEvent({ ...start, extra_headers: '{"lang":"en"}' } as any, 'off');
+
+    expect(event).toMatchObject({ start: start.start, headers: { lang: 'en' } });
+    expect(parseInboundEvent({ event: 'dtmf', anything: true } as any, 'off')).toEqual({
+      event: 'dtmf',
+      anything: true,
+    } as any);
+  });
+});
+
+describe('PlivoWebSocketServer validation', () => {
+  test('reports invalid events as EventValidationError and unknown events to onUnknownEvent', async () => {
+    const server = new PlivoWebSocketServer({ port: 0 });
+    servers.push(server);
+    const errors: Error[] = [];
+    const unknown: unknown[] = [];
+    const raw: string[] = [];
+    const closed = new Promise<void>((resolve) => {
+      server
+        .onRawMessage((message) => {
+          raw.push(message);
+          // Taken over by the application, so the SDK does not see it
+          if (message.includes('"custom"')) return false;
+        })
+        .onUnknownEvent((event) => unknown.push(event))
+        .onError((error) => errors.push(error))
+        .onClose(() => resolve())
+        .start();
+    });
+    const ws = await connect(await listening(server));
+    ws.send(startMessage());
+    ws.send(JSON.stringify({ event: 'dtmf', sequenceNumber: 1, streamId: 'x', dtmf: { digit: 1 } }));
+    ws.send(JSON.stringify({ event: 'transcript', text: 'hi' }));
+    ws.send(JSON.stringify({ event: 'custom' }));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    ws.close();
+    await closed;
+
+    expect(raw).toHaveLength(4);
+    expect(unknown).toEqual([{ event: 'transcript', text: 'hi' }]);
+    expect(errors).toHaveLength(1);
+    const error = errors[0] as EventValidationError;
+    expect(error).toBeInstanceOf(EventValidationError);
+    expect(error.eventType).toBe('dtmf');
+    expect(error.streamId).toBe('x');
+    expect(error.issues.length).toBeGreaterThan(0);
+  });
+
+  test('strict mode reports unknown events as errors when nothing handles them', async () => {
+    const server = new PlivoWebSocketServer({ port: 0 });
+    servers.push(server);
+    const errors: string[] = [];
+    const closed = new Promise<void>((resolve) => {
+      server
+        .onError((error) => errors.push(error.message))
+        .onClose(() => resolve())
+        .start();
+    });
+    const ws = await connect(await listening(server));
+    ws.send(JSON.stringify({ event: 'transcript' }));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    ws.close();
+    await closed;
+
+    expect(errors).toEqual(['Unknown event type: transcript']);
+  });
+});